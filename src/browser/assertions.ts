@@ -0,0 +1,150 @@
+import type { Locator, Page } from 'playwright';
+
+import type { AssertionStep } from '../schema/index.js';
+import { TIMEOUTS } from '../config/defaults.js';
+import { describeSelector, resolveSelector } from './selectors.js';
+
+// ── Constants ────────────────────────────────────────────────
+
+const POLL_INTERVAL = 200;
+
+// ── Public API ───────────────────────────────────────────────
+
+/**
+ * Check an `expect_*` step, retrying until the step's timeout.
+ * Throws with expected and actual values when it never holds.
+ *
+ * Selectors are resolved as written, never healed: a healed locator
+ * can point at a similar-looking element, and the assertion would
+ * pass against the wrong thing.
+ */
+export async function performAssertion(
+  page: Page,
+  step: AssertionStep,
+): Promise<void> {
+  const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+
+  switch (step.type) {
+    case 'expect_text': {
+      const locator = step.selector
+        ? resolveSelector(page, step.selector)
+        : page.locator('body');
+      await locator.waitFor({ state: 'visible', timeout });
+      const text = await locator.innerText();
+      if (!text.includes(step.value)) {
+        throw new Error(`Expected text "${step.value}" not found`);
+      }
+      return;
+    }
+
+    case 'expect_url': {
+      const pattern = new RegExp(step.value);
+      await poll(timeout, `URL matching /${step.value}/`, () => {
+        const url = page.url();
+        return Promise.resolve({ ok: pattern.test(url), actual: url });
+      });
+      return;
+    }
+
+    case 'expect_title':
+      await poll(timeout, `title containing "${step.value}"`, async () => {
+        const title = await page.title();
+        return { ok: title.includes(step.value), actual: `"${title}"` };
+      });
+      return;
+
+    case 'expect_visible': {
+      const locator = resolveSelector(page, step.selector);
+      await locator.first().waitFor({ state: 'visible', timeout });
+      return;
+    }
+
+    case 'expect_hidden': {
+      const locator = resolveSelector(page, step.selector);
+      await poll(timeout, `${describeSelector(step.selector)} hidden`, async () => {
+        const visible = await countVisible(locator);
+        return { ok: visible === 0, actual: `${String(visible)} visible` };
+      });
+      return;
+    }
+
+    case 'expect_count': {
+      const locator = resolveSelector(page, step.selector);
+      await poll(timeout, `${String(step.count)} × ${describeSelector(step.selector)}`, async () => {
+        const count = await locator.count();
+        return { ok: count === step.count, actual: String(count) };
+      });
+      return;
+    }
+
+    case 'expect_attribute': {
+      const locator = resolveSelector(page, step.selector).first();
+      await locator.waitFor({ state: 'attached', timeout });
+      const expected = step.value !== undefined
+        ? `${step.attribute}="${step.value}"`
+        : `attribute ${step.attribute}`;
+      await poll(timeout, expected, async () => {
+        const actual = await locator.getAttribute(step.attribute);
+        return {
+          ok: actual !== null && (step.value === undefined || actual === step.value),
+          actual: actual === null ? 'no such attribute' : `${step.attribute}="${actual}"`,
+        };
+      });
+      return;
+    }
+
+    case 'expect_value': {
+      const locator = resolveSelector(page, step.selector).first();
+      await locator.waitFor({ state: 'attached', timeout });
+      await poll(timeout, `value "${step.value}"`, async () => {
+        const actual = await locator.inputValue();
+        return { ok: actual === step.value, actual: `"${actual}"` };
+      });
+      return;
+    }
+
+    case 'expect_enabled':
+    case 'expect_disabled': {
+      const locator = resolveSelector(page, step.selector).first();
+      await locator.waitFor({ state: 'attached', timeout });
+      const wantEnabled = step.type === 'expect_enabled';
+      await poll(timeout, wantEnabled ? 'enabled' : 'disabled', async () => {
+        const enabled = await locator.isEnabled();
+        return { ok: enabled === wantEnabled, actual: enabled ? 'enabled' : 'disabled' };
+      });
+      return;
+    }
+  }
+}
+
+// ── Polling ──────────────────────────────────────────────────
+
+interface Probe {
+  ok: boolean;
+  /** Shown in the error when the assertion never holds. */
+  actual: string;
+}
+
+async function poll(
+  timeout: number,
+  expected: string,
+  probe: () => Promise<Probe>,
+): Promise<void> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const { ok, actual } = await probe();
+    if (ok) return;
+    if (Date.now() >= deadline) {
+      throw new Error(`Expected ${expected}, got ${actual}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+}
+
+async function countVisible(locator: Locator): Promise<number> {
+  let visible = 0;
+  for (const element of await locator.all()) {
+    if (await element.isVisible()) visible++;
+  }
+  return visible;
+}
@@ -1,12 +1,24 @@
 import type { BrowserContext, Page } from 'playwright';
 
-import type { LLMClient } from '../llm/index.js';
-import type { Step } from '../schema/index.js';
-import { TIMEOUTS } from '../config/defaults.js';
-import { planSteps } from '../core/planner.js';
-import { prescanPage } from './prescan.js';
-import { resolveSelector } from './selectors.js';
-import * as log from '../utils/logger.js';
+import type { LoginSuccessCheck, TotpConfig } from '../schema/index.js';
+import { resolveSelector, describeSelector } from './selectors.js';
+import { addSecret } from '../utils/redact.js';
+import { decodeBase32, generateTotp } from '../utils/totp.js';
+import type { StepVariable } from './variables.js';
+
+// ── Error ───────────────────────────────────────────────────
+
+export class LoginError extends Error {
+  readonly exitCode = 6;
+
+  constructor(
+    message: string,
+    readonly failedChecks: readonly string[] = [],
+  ) {
+    super(message);
+    this.name = 'LoginError';
+  }
+}
 
 // ── Cookie injection ────────────────────────────────────────
 
@@ -49,151 +61,130 @@ export async function injectCookies(
   );
 }
 
-// ── Login flow ──────────────────────────────────────────────
+// ── One-time codes ──────────────────────────────────────────
 
 /**
- * Run a natural-language login prompt through the planner → runner
- * pipeline before the actual test. The browser context (session
- * cookies, localStorage) is preserved so subsequent test steps
- * execute in an authenticated state.
- *
- * Note: the LLM call happens inside `planSteps` (core/planner),
- * not in this module — the determinism rule is preserved.
+ * The `${{ totp }}` variable for a 2FA login. The secret is registered
+ * for redaction, and each code handed out until its window closes —
+ * masking it for longer would hide every matching number in the
+ * output of this and any parallel test.
  */
-export async function runLoginFlow(
-  context: BrowserContext,
-  llm: LLMClient,
-  prompt: string,
-  url: string,
-): Promise<void> {
-  const page = context.pages()[0] ?? await context.newPage();
+export function totpVariable(
+  config: TotpConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): StepVariable {
+  const secret = env[config.secretEnv];
+  if (secret === undefined || secret.trim() === '') {
+    throw new Error(`TOTP secret variable ${config.secretEnv} is not set`);
+  }
+  // Fail before the browser starts, not halfway through the login
+  decodeBase32(secret);
+  addSecret(secret);
+
+  return {
+    description: `current ${String(config.digits)}-digit one-time code for two-factor authentication`,
+    value(): string {
+      const now = Date.now();
+      const periodMs = config.period * 1000;
+      const code = generateTotp(secret, config, now);
+      addSecret(code, (Math.floor(now / periodMs) + 1) * periodMs);
+      return code;
+    },
+  };
+}
 
-  const snapshot = await prescanPage(page, url);
+// ── Success check ───────────────────────────────────────────
 
-  const steps = await planSteps(llm, {
-    prompt,
-    baseUrl: url,
-    snapshot,
-  });
+export interface LoginCheckResult {
+  ok: boolean;
+  /** One line per predicate that did not hold. */
+  failures: string[];
+}
 
-  const loginPageUrl = page.url();
+const DEFAULT_CHECK_TIMEOUT = 10_000;
 
-  for (let i = 0; i < steps.length; i++) {
-    const step = steps[i]!;
-    log.login(`[${String(i + 1)}/${String(steps.length)}] ${step.type}: ${step.description}`);
-    await executeLoginStep(page, step);
+/**
+ * Wait for every predicate of `check` to hold within its timeout.
+ * Without a check, success means no password field is visible — the
+ * login form is gone.
+ */
+export async function checkLoginSuccess(
+  page: Page,
+  check: LoginSuccessCheck | undefined,
+): Promise<LoginCheckResult> {
+  const deadline = Date.now() + (check ? check.timeout * 1000 : DEFAULT_CHECK_TIMEOUT);
+  const remaining = (): number => Math.max(0, deadline - Date.now());
+  const failures: string[] = [];
+
+  if (!check) {
+    try {
+      await page.locator('input[type="password"]').first().waitFor({
+        state: 'hidden',
+        timeout: remaining(),
+      });
+    } catch {
+      failures.push(`password field still visible at ${page.url()}`);
+    }
+    return { ok: failures.length === 0, failures };
   }
 
-  // Wait for the page to navigate away from the login page
-  let urlChanged = false;
-  try {
-    await page.waitForURL((u) => u.toString() !== loginPageUrl, {
-      timeout: 10_000,
-    });
-    urlChanged = true;
-    log.login(`Redirected to ${page.url()}`);
-  } catch {
-    log.warn('Login did not trigger a URL change — app may use SPA routing');
+  if (check.url !== undefined) {
+    const pattern = new RegExp(check.url);
+    try {
+      await page.waitForURL((u) => pattern.test(u.toString()), { timeout: remaining() });
+    } catch {
+      failures.push(`URL ${page.url()} does not match /${check.url}/`);
+    }
   }
 
-  // Let the page finish loading after navigation
-  try {
-    await page.waitForLoadState('networkidle', { timeout: 5_000 });
-  } catch {
-    // Non-fatal — page may have long-polling or streaming connections
+  if (check.visible !== undefined) {
+    try {
+      await resolveSelector(page, check.visible).first().waitFor({
+        state: 'visible',
+        timeout: remaining(),
+      });
+    } catch {
+      failures.push(`element not visible: ${describeSelector(check.visible)}`);
+    }
   }
 
-  // Fallback for SPA apps that don't change the URL
-  if (!urlChanged) {
-    await page.waitForTimeout(3_000);
+  if (check.hidden !== undefined) {
+    try {
+      await resolveSelector(page, check.hidden).first().waitFor({
+        state: 'hidden',
+        timeout: remaining(),
+      });
+    } catch {
+      failures.push(`element still visible: ${describeSelector(check.hidden)}`);
+    }
   }
-}
 
-// ── Internal step executor (minimal, no artifacts) ──────────
-
-async function executeLoginStep(page: Page, step: Step): Promise<void> {
-  try {
-    switch (step.type) {
-      case 'goto':
-        await page.goto(step.value, {
-          timeout: step.timeout ?? TIMEOUTS.NAVIGATION_TIMEOUT,
-          waitUntil: 'domcontentloaded',
-        });
-        break;
-
-      case 'click': {
-        const loc = resolveSelector(page, step.selector);
-        await loc.click({ timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT });
-        break;
-      }
-
-      case 'type': {
-        const loc = resolveSelector(page, step.selector);
-        await loc.fill(step.value, {
-          timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-        });
-        break;
-      }
-
-      case 'select': {
-        const loc = resolveSelector(page, step.selector);
-        await loc.selectOption(step.value, {
-          timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-        });
-        break;
-      }
-
-      case 'upload': {
-        const loc = resolveSelector(page, step.selector);
-        await loc.setInputFiles(step.value, {
-          timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-        });
-        break;
-      }
-
-      case 'wait':
-        if (step.selector) {
-          const loc = resolveSelector(page, step.selector);
-          await loc.waitFor({
-            state: 'visible',
-            timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-          });
-        } else if (step.value) {
-          const ms = Number(step.value);
-          if (!Number.isNaN(ms)) await page.waitForTimeout(ms);
-        }
-        break;
-
-      case 'expect_text': {
-        const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
-        const loc = step.selector
-          ? resolveSelector(page, step.selector)
-          : page.locator('body');
-        await loc.waitFor({ state: 'visible', timeout });
-        const text = await loc.innerText();
-        if (!text.includes(step.value)) {
-          throw new Error(
-            `Login flow: expected text "${step.value}" not found`,
-          );
-        }
-        break;
-      }
-    }
-  } catch (err) {
-    // Take a screenshot to show the state at the point of failure
+  if (check.text !== undefined) {
     try {
-      await page.screenshot({
-        path: `login-step-failure-${step.type}.png`,
-        fullPage: true,
+      await page.getByText(check.text).first().waitFor({
+        state: 'visible',
+        timeout: remaining(),
       });
     } catch {
-      // Browser may be in a bad state
+      failures.push(`text not found: "${check.text}"`);
     }
+  }
 
-    const message = err instanceof Error ? err.message : String(err);
-    const currentUrl = page.url();
-    throw new Error(
-      `Login step "${step.type}: ${step.description}" failed at ${currentUrl}: ${message}`,
-    );
+  if (check.cookie !== undefined) {
+    const name = check.cookie;
+    const hasCookie = async (): Promise<boolean> =>
+      (await page.context().cookies()).some((c) => c.name === name);
+
+    // Cookies have no wait API — poll until the deadline
+    let found = await hasCookie();
+    while (!found && remaining() > 0) {
+      await page.waitForTimeout(Math.min(250, remaining()));
+      found = await hasCookie();
+    }
+    if (!found) {
+      failures.push(`cookie "${name}" not set`);
+    }
   }
+
+  return { ok: failures.length === 0, failures };
 }
@@ -0,0 +1,121 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { BrowserContext } from 'playwright';
+import { z } from 'zod';
+
+import * as log from '../utils/logger.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+/** Cookies + localStorage as returned by `context.storageState()`. */
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface AuthStateOptions {
+  /** File the state is read from and written to. */
+  path: string;
+  /** Saved states older than this are ignored. */
+  ttlMs: number;
+  /**
+   * Ignore states saved before this timestamp (ms). `--refresh-auth`
+   * sets it to the start of the invocation so the first test logs in
+   * fresh and later tests reuse that login.
+   */
+  notBefore?: number | undefined;
+}
+
+/** What makes two logins interchangeable. */
+export interface AuthStateIdentity {
+  url: string;
+  loginPrompt: string;
+  cookie?: string | undefined;
+  /** Named auth role — each role keeps its own session. */
+  role?: string | undefined;
+}
+
+// ── State file ───────────────────────────────────────────────
+
+const AUTH_STATE_VERSION = 1;
+
+const authStateFileSchema = z.object({
+  version: z.literal(AUTH_STATE_VERSION),
+  origin: z.string(),
+  savedAt: z.string().datetime(),
+  // Playwright owns this shape — store it verbatim
+  storageState: z.object({
+    cookies: z.array(z.unknown()),
+    origins: z.array(z.unknown()),
+  }).passthrough(),
+});
+
+// ── Public API ──────────────────────────────────────────────
+
+/**
+ * State file for a login, keyed by the target origin, the role and
+ * the auth settings. Changing the login prompt or cookie starts a new
+ * session.
+ */
+export function authStatePath(dir: string, identity: AuthStateIdentity): string {
+  const origin = new URL(identity.url).origin;
+  const key = createHash('sha256')
+    .update(JSON.stringify([origin, identity.role ?? '', identity.loginPrompt, identity.cookie ?? '']))
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(dir, `${key}.json`);
+}
+
+/**
+ * Load a saved storage state, or undefined when there is none, it
+ * has expired, or it predates `notBefore`.
+ */
+export async function loadAuthState(
+  options: AuthStateOptions,
+): Promise<StorageState | undefined> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(options.path, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+
+  const parsed = authStateFileSchema.safeParse(data);
+  if (!parsed.success) {
+    log.warn(`Ignoring unreadable auth state ${options.path}`);
+    return undefined;
+  }
+
+  const savedAt = Date.parse(parsed.data.savedAt);
+  if (Date.now() - savedAt > options.ttlMs) {
+    log.login('Saved login session expired — logging in again');
+    return undefined;
+  }
+  if (options.notBefore !== undefined && savedAt < options.notBefore) {
+    return undefined;
+  }
+
+  return parsed.data.storageState as StorageState;
+}
+
+export async function saveAuthState(
+  options: AuthStateOptions,
+  url: string,
+  state: StorageState,
+): Promise<void> {
+  await mkdir(path.dirname(options.path), { recursive: true });
+  await writeFile(
+    options.path,
+    JSON.stringify(
+      {
+        version: AUTH_STATE_VERSION,
+        origin: new URL(url).origin,
+        savedAt: new Date().toISOString(),
+        storageState: state,
+      },
+      null,
+      2,
+    ) + '\n',
+    { encoding: 'utf-8', mode: 0o600 },
+  );
+  log.login(`Saved login session to ${options.path}`);
+}
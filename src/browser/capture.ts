@@ -6,6 +6,8 @@ import { TOKEN_GUARDS } from '../config/defaults.js';
 // ── Public interface ─────────────────────────────────────────
 
 export interface CaptureCollector {
+  /** Also collect from `page`, e.g. a tab opened mid-session. */
+  watch(page: Page): void;
   /** Return accumulated capture data and reset all buffers. */
   flush(): StepCapture;
 }
@@ -15,39 +17,47 @@ export interface CaptureCollector {
 /**
  * Attach capture listeners to a Playwright page.
  * Call once at page creation — listeners persist for the session.
- * Use `flush()` at each step boundary to drain and reset buffers.
+ * Pages opened later are added with `watch()`; all of them feed the
+ * same buffers. Use `flush()` at each step boundary to drain and
+ * reset buffers.
  */
 export function attachCapture(page: Page): CaptureCollector {
   let consoleEntries: ConsoleEntry[] = [];
   let networkFailures: NetworkFailure[] = [];
   let pageErrors: PageErrorEntry[] = [];
 
-  page.on('console', (msg) => {
-    const type = msg.type();
-    if (type !== 'error' && type !== 'warning') return;
+  function watch(target: Page): void {
+    target.on('console', (msg) => {
+      const type = msg.type();
+      if (type !== 'error' && type !== 'warning') return;
 
-    consoleEntries.push({
-      level: type === 'warning' ? 'warn' : 'error',
-      text: msg.text(),
+      consoleEntries.push({
+        level: type === 'warning' ? 'warn' : 'error',
+        text: msg.text(),
+      });
     });
-  });
 
-  page.on('response', (response) => {
-    if (response.status() < 400) return;
+    target.on('response', (response) => {
+      if (response.status() < 400) return;
 
-    networkFailures.push({
-      url: response.url(),
-      status: response.status(),
-      statusText: response.statusText(),
-      method: response.request().method(),
+      networkFailures.push({
+        url: response.url(),
+        status: response.status(),
+        statusText: response.statusText(),
+        method: response.request().method(),
+      });
     });
-  });
 
-  page.on('pageerror', (error) => {
-    pageErrors.push({ message: error.message });
-  });
+    target.on('pageerror', (error) => {
+      pageErrors.push({ message: error.message });
+    });
+  }
+
+  watch(page);
 
   return {
+    watch,
+
     flush(): StepCapture {
       const captured: StepCapture = {
         consoleEntries: consoleEntries.slice(0, TOKEN_GUARDS.MAX_CONSOLE_ERRORS),
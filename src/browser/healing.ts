@@ -0,0 +1,216 @@
+import type { Locator, Page } from 'playwright';
+
+import type {
+  InteractiveElement,
+  SelectorHint,
+  SelectorResolution,
+} from '../schema/index.js';
+import { prescanCurrentPage } from './prescan.js';
+import { resolveSelector, describeSelector, SelectorError } from './selectors.js';
+import * as log from '../utils/logger.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface HealedLocator {
+  locator: Locator;
+  resolution: Omit<SelectorResolution, 'field'>;
+}
+
+// ── Constants ────────────────────────────────────────────────
+
+const MAX_CANDIDATES = 12;
+
+// ── Healing resolver ─────────────────────────────────────────
+
+/**
+ * Resolve a SelectorHint, falling back to alternative strategies only
+ * when the requested one still matches nothing after `timeout` — a
+ * slow element is waited for, never swapped for a look-alike. Several
+ * matches are not healed either; the action fails on them instead.
+ *
+ * Candidates come from prescan elements whose test id, name,
+ * placeholder or text equals a value the hint asked for. Fallback
+ * order per element:
+ *   testid → role + name → label → placeholder → text → css [name]
+ *
+ * The first candidate that matches exactly one element wins. If none
+ * does, the requested locator is returned unchanged so the action
+ * fails with Playwright's own error.
+ */
+export async function healSelector(
+  page: Page,
+  hint: SelectorHint,
+  timeout: number,
+): Promise<HealedLocator> {
+  const primary = tryResolve(page, hint);
+
+  if (primary) {
+    try {
+      await primary.first().waitFor({ state: 'attached', timeout });
+    } catch {
+      // Zero matches — fall through to healing
+    }
+    if (await countMatches(primary) > 0) {
+      return {
+        locator: primary,
+        resolution: { requested: hint, matched: hint, healed: false },
+      };
+    }
+  }
+
+  let elements: InteractiveElement[] = [];
+  try {
+    elements = (await prescanCurrentPage(page)).elements;
+  } catch {
+    // Page may be navigating — nothing to heal from
+  }
+
+  for (const candidate of buildCandidates(hint, elements)) {
+    const locator = tryResolve(page, candidate);
+    if (!locator) continue;
+    if (await countMatches(locator) === 1) {
+      log.warn(`Selector healed: ${describeSelector(hint)} → ${describeSelector(candidate)}`);
+      return {
+        locator,
+        resolution: { requested: hint, matched: candidate, healed: true },
+      };
+    }
+  }
+
+  return {
+    // Re-resolve so an invalid hint surfaces its SelectorError
+    locator: primary ?? resolveSelector(page, hint),
+    resolution: { requested: hint, matched: hint, healed: false },
+  };
+}
+
+// ── Candidate generation ─────────────────────────────────────
+
+function buildCandidates(
+  hint: SelectorHint,
+  elements: readonly InteractiveElement[],
+): SelectorHint[] {
+  const needles = extractNeedles(hint);
+  if (needles.length === 0) return [];
+
+  // Exact matches only: "Delete" must not heal onto "Delete account"
+  const matching = elements.filter((el) =>
+    [el.testId, el.name, el.placeholder, el.text]
+      .filter((f): f is string => f !== undefined)
+      .some((f) => needles.includes(normalize(f))),
+  );
+
+  const seen = new Set<string>([describeSelector(hint)]);
+  const candidates: SelectorHint[] = [];
+
+  for (const el of matching) {
+    for (const candidate of candidatesFor(el)) {
+      const key = describeSelector(candidate);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push(candidate);
+    }
+  }
+
+  return candidates.slice(0, MAX_CANDIDATES);
+}
+
+function candidatesFor(el: InteractiveElement): SelectorHint[] {
+  const candidates: SelectorHint[] = [];
+  const role = roleOf(el);
+  const isField = el.tag === 'input' || el.tag === 'select' || el.tag === 'textarea';
+
+  if (el.testId) {
+    candidates.push({ strategy: 'testid', value: el.testId });
+  }
+  if (role && el.text) {
+    candidates.push({ strategy: 'role', value: role, role, name: el.text });
+  }
+  if (isField && el.text) {
+    candidates.push({ strategy: 'label', value: el.text });
+  }
+  if (el.placeholder) {
+    candidates.push({ strategy: 'placeholder', value: el.placeholder });
+  }
+  if (!isField && el.text) {
+    candidates.push({ strategy: 'text', value: el.text });
+  }
+  if (el.name) {
+    candidates.push({ strategy: 'css', value: `${el.tag}[name="${el.name}"]` });
+  }
+
+  return candidates;
+}
+
+function roleOf(el: InteractiveElement): string | undefined {
+  switch (el.tag) {
+    case 'button':
+      return 'button';
+    case 'a':
+      return 'link';
+    case 'select':
+      return 'combobox';
+    case 'textarea':
+      return 'textbox';
+    case 'input':
+      switch (el.type) {
+        case 'checkbox':
+          return 'checkbox';
+        case 'radio':
+          return 'radio';
+        case 'submit':
+        case 'button':
+          return 'button';
+        case 'file':
+        case 'hidden':
+          return undefined;
+        default:
+          return 'textbox';
+      }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Collect the literal values a hint is looking for. CSS hints are
+ * mined for quoted attribute values and `#id` fragments so that
+ * `input[placeholder='Email']` still finds the Email field.
+ */
+function extractNeedles(hint: SelectorHint): string[] {
+  const raw: string[] = [];
+
+  if (hint.strategy === 'css') {
+    for (const match of hint.value.matchAll(/=\s*['"]([^'"]+)['"]/g)) {
+      if (match[1]) raw.push(match[1]);
+    }
+    const idMatch = /#([\w-]+)/.exec(hint.value);
+    if (idMatch?.[1]) raw.push(idMatch[1]);
+  } else if (hint.strategy !== 'role') {
+    raw.push(hint.value);
+  }
+
+  if (hint.name) raw.push(hint.name);
+
+  return [...new Set(raw.map(normalize).filter((n) => n.length > 0))];
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function tryResolve(page: Page, hint: SelectorHint): Locator | undefined {
+  try {
+    return resolveSelector(page, hint);
+  } catch (err) {
+    if (err instanceof SelectorError) return undefined;
+    throw err;
+  }
+}
+
+async function countMatches(locator: Locator): Promise<number> {
+  // Invalid CSS throws at query time — treat as no match
+  return locator.count().catch(() => 0);
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
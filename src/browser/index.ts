@@ -5,9 +5,35 @@
  */
 
 export { resolveSelector, describeSelector, SelectorError } from './selectors.js';
-export { launchSession } from './runner.js';
-export type { RunnerConfig, BrowserSession, CookieParam } from './runner.js';
+export { healSelector } from './healing.js';
+export type { HealedLocator } from './healing.js';
+export { launchSession, launchBrowser } from './runner.js';
+export type { RunnerConfig, BrowserSession, CookieParam, HttpAuth } from './runner.js';
 export { attachCapture } from './capture.js';
 export type { CaptureCollector } from './capture.js';
 export { prescanPage, prescanCurrentPage } from './prescan.js';
-export { injectCookies, runLoginFlow } from './auth.js';
+export { performScroll } from './scroll.js';
+export type { ScrollOutcome } from './scroll.js';
+export { performAssertion } from './assertions.js';
+export { trackTabs } from './tabs.js';
+export type { TabTracker } from './tabs.js';
+export {
+  resolveStepVariables,
+  placeholder,
+  templateVariables,
+  withVariableHints,
+} from './variables.js';
+export type { StepVariable, StepVariables } from './variables.js';
+export {
+  injectCookies,
+  checkLoginSuccess,
+  totpVariable,
+  LoginError,
+} from './auth.js';
+export type { LoginCheckResult } from './auth.js';
+export {
+  authStatePath,
+  loadAuthState,
+  saveAuthState,
+} from './authState.js';
+export type { StorageState, AuthStateOptions, AuthStateIdentity } from './authState.js';
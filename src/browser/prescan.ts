@@ -2,6 +2,7 @@ import type { Page } from 'playwright';
 
 import type { InteractiveElement, PageSnapshot } from '../schema/index.js';
 import { TIMEOUTS } from '../config/defaults.js';
+import * as log from '../utils/logger.js';
 
 const PRESCAN_TEXT_LIMIT = 4_000;
 const MAX_ELEMENTS = 80;
@@ -50,7 +51,7 @@ async function scanCurrentDOM(page: Page): Promise<PageSnapshot> {
   const total = extracted.totalCount;
   const visible = extracted.elements.length;
   const sent = prioritized.length;
-  console.log(`[prescan] Found ${total} total elements, ${visible} visible, sending ${sent} to planner`);
+  log.detail(`[prescan] Found ${String(total)} total elements, ${String(visible)} visible, sending ${String(sent)} to planner`);
 
   const snapshot: PageSnapshot = {
     url: page.url(),
@@ -144,6 +145,12 @@ function extractFromDOM(): {
     return true;
   }
 
+  function isInViewport(el: Element): boolean {
+    const rect = el.getBoundingClientRect();
+    return rect.bottom > 0 && rect.right > 0 &&
+      rect.top < window.innerHeight && rect.left < window.innerWidth;
+  }
+
   const seen = new Set<Element>();
   const elements: InteractiveElement[] = [];
   let totalCount = 0;
@@ -153,7 +160,7 @@ function extractFromDOM(): {
     seen.add(el);
     totalCount++;
     if (!isVisible(el)) return;
-    elements.push(data);
+    elements.push({ ...data, inViewport: isInViewport(el) });
   }
 
   // Buttons (native + ARIA role)
@@ -2,12 +2,29 @@ import { mkdir } from 'node:fs/promises';
 import path from 'node:path';
 
 import { chromium } from 'playwright';
-import type { Page } from 'playwright';
-
-import type { Step, StepExecutionResult, WaitStep } from '../schema/index.js';
+import type { Browser, Locator, Page } from 'playwright';
+
+import type {
+  AssertionStep,
+  ScrollStep,
+  SelectorField,
+  SelectorHint,
+  SelectorResolution,
+  Step,
+  StepExecutionResult,
+  WaitStep,
+} from '../schema/index.js';
 import { TIMEOUTS, TOKEN_GUARDS } from '../config/defaults.js';
+import { healSelector } from './healing.js';
 import { resolveSelector } from './selectors.js';
 import { attachCapture } from './capture.js';
+import { performScroll } from './scroll.js';
+import { performAssertion } from './assertions.js';
+import { trackTabs } from './tabs.js';
+import type { TabTracker } from './tabs.js';
+import type { StorageState } from './authState.js';
+import { resolveStepVariables } from './variables.js';
+import type { StepVariables } from './variables.js';
 import * as log from '../utils/logger.js';
 
 // ── Public types ─────────────────────────────────────────────
@@ -15,21 +32,70 @@ import * as log from '../utils/logger.js';
 export interface RunnerConfig {
   headless: boolean;
   screenshotDir: string;
+  /**
+   * Shared browser to open this session's context in. When omitted the
+   * session launches (and on close, shuts down) its own Chromium.
+   */
+  browser?: Browser | undefined;
+  /** Saved cookies + localStorage to start the context with. */
+  storageState?: StorageState | undefined;
+  /** `${{ name }}` values filled into steps right before they run. */
+  variables?: StepVariables | undefined;
+  /** Header and HTTP basic credentials for apps behind a gateway. */
+  httpAuth?: HttpAuth | undefined;
 }
 
+/**
+ * Either `url`, or `domain` + `path`, scopes the cookie. Passed to
+ * Playwright as is, so absent fields must be omitted, not undefined.
+ */
 export interface CookieParam {
   name: string;
   value: string;
-  url: string;
+  url?: string;
+  domain?: string;
+  path?: string;
+  /** Unix time in seconds; omitted for a session cookie. */
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface HttpAuth {
+  /** Only requests to this origin carry the headers and credentials. */
+  origin: string;
+  headers?: Readonly<Record<string, string>> | undefined;
+  credentials?: { username: string; password: string } | undefined;
 }
 
 export interface BrowserSession {
+  /**
+   * The active tab. A tab or popup opened by a step becomes active
+   * when that step ends; `switch_tab` and `close_tab` change it too.
+   */
   readonly page: Page;
+  /** Every open tab, in the order they were opened. */
+  readonly pages: readonly Page[];
   executeStep(step: Step, stepIndex: number): Promise<StepExecutionResult>;
   addCookies(cookies: readonly CookieParam[]): Promise<void>;
+  /** Snapshot cookies + localStorage, e.g. to persist a login. */
+  storageState(): Promise<StorageState>;
+  /** Drop cookies and web storage of the current origin. */
+  clearAuthState(): Promise<void>;
   close(): Promise<void>;
 }
 
+// ── Browser launcher ─────────────────────────────────────────
+
+/**
+ * Launch a Chromium instance that several sessions can share via
+ * `RunnerConfig.browser`. The caller owns it and must close it.
+ */
+export async function launchBrowser(headless: boolean): Promise<Browser> {
+  return chromium.launch({ headless });
+}
+
 // ── Session launcher ─────────────────────────────────────────
 
 export async function launchSession(
@@ -37,19 +103,56 @@ export async function launchSession(
 ): Promise<BrowserSession> {
   await mkdir(config.screenshotDir, { recursive: true });
 
-  const browser = await chromium.launch({ headless: config.headless });
-  const context = await browser.newContext();
-  const page = await context.newPage();
+  const ownsBrowser = config.browser === undefined;
+  const browser = config.browser ?? await launchBrowser(config.headless);
+  const httpAuth = config.httpAuth;
+  const context = await browser.newContext({
+    ...(config.storageState !== undefined ? { storageState: config.storageState } : {}),
+    ...(httpAuth?.credentials !== undefined
+      ? { httpCredentials: { ...httpAuth.credentials, origin: httpAuth.origin } }
+      : {}),
+  });
+
+  // Not extraHTTPHeaders — that would hand tokens to every third party
+  const headers = httpAuth?.headers;
+  if (httpAuth !== undefined && headers !== undefined && Object.keys(headers).length > 0) {
+    await context.route(
+      (url) => url.origin === httpAuth.origin,
+      (route) => route.continue({ headers: { ...route.request().headers(), ...headers } }),
+    );
+  }
 
-  const capture = attachCapture(page);
+  const firstPage = await context.newPage();
+  const capture = attachCapture(firstPage);
+  const tabs = trackTabs(context, firstPage, (opened) => capture.watch(opened));
 
   return {
-    page,
+    get page() {
+      return tabs.active;
+    },
+
+    get pages() {
+      return tabs.pages;
+    },
 
     async addCookies(cookies: readonly CookieParam[]): Promise<void> {
       await context.addCookies([...cookies]);
     },
 
+    async storageState(): Promise<StorageState> {
+      return context.storageState();
+    },
+
+    async clearAuthState(): Promise<void> {
+      await context.clearCookies();
+      await tabs.active
+        .evaluate(() => {
+          localStorage.clear();
+          sessionStorage.clear();
+        })
+        .catch(() => {});
+    },
+
     async executeStep(
       step: Step,
       stepIndex: number,
@@ -58,12 +161,22 @@ export async function launchSession(
       capture.flush();
 
       let success = true;
+      const resolutions: SelectorResolution[] = [];
       try {
-        await performAction(page, step);
+        // Only the action sees real values — the result keeps the placeholder
+        await performAction(tabs, resolveStepVariables(step, config.variables), resolutions);
       } catch {
         success = false;
       }
 
+      // Follow a tab or popup the step opened (target=_blank, OAuth)
+      const opened = await tabs.adoptOpened();
+      for (const tab of opened) {
+        log.detail(`new tab → ${tab.url()}`);
+      }
+      const page = tabs.active;
+      const activeTab = tabs.pages.length > 1 ? tabs.pages.indexOf(page) : -1;
+
       const screenshotPath = path.join(
         config.screenshotDir,
         `step-${String(stepIndex)}.png`,
@@ -82,18 +195,31 @@ export async function launchSession(
         screenshotPath,
         visibleText,
         capture: capture.flush(),
+        ...(resolutions.length > 0 ? { selectorResolutions: resolutions } : {}),
+        ...(opened.length > 0 ? { openedTabs: opened.map((tab) => tab.url()) } : {}),
+        ...(activeTab !== -1 ? { activeTab } : {}),
       };
     },
 
     async close(): Promise<void> {
-      await browser.close();
+      if (ownsBrowser) {
+        await browser.close();
+      } else {
+        await context.close();
+      }
     },
   };
 }
 
 // ── Step dispatch ────────────────────────────────────────────
 
-async function performAction(page: Page, step: Step): Promise<void> {
+async function performAction(
+  tabs: TabTracker,
+  step: Step,
+  resolutions: SelectorResolution[],
+): Promise<void> {
+  const page = tabs.active;
+
   switch (step.type) {
     case 'goto': {
       // Skip navigation if we're already on the target URL
@@ -114,37 +240,33 @@ async function performAction(page: Page, step: Step): Promise<void> {
 
     case 'click': {
       log.detail(`click → ${step.selector.strategy}="${step.selector.value}"`);
-      const locator = resolveSelector(page, step.selector);
-      await locator.click({
-        timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-      });
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.click({ timeout });
       break;
     }
 
     case 'type': {
       log.detail(`type "${step.value}" → ${step.selector.strategy}="${step.selector.value}"`);
-      const locator = resolveSelector(page, step.selector);
-      await locator.fill(step.value, {
-        timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-      });
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.fill(step.value, { timeout });
       break;
     }
 
     case 'select': {
       log.detail(`select "${step.value}" → ${step.selector.strategy}="${step.selector.value}"`);
-      const locator = resolveSelector(page, step.selector);
-      await locator.selectOption(step.value, {
-        timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-      });
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.selectOption(step.value, { timeout });
       break;
     }
 
     case 'upload': {
       log.detail(`upload "${step.value}" → ${step.selector.strategy}="${step.selector.value}"`);
-      const locator = resolveSelector(page, step.selector);
-      await locator.setInputFiles(step.value, {
-        timeout: step.timeout ?? TIMEOUTS.ACTION_TIMEOUT,
-      });
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.setInputFiles(step.value, { timeout });
       break;
     }
 
@@ -153,17 +275,29 @@ async function performAction(page: Page, step: Step): Promise<void> {
       await handleWait(page, step);
       break;
 
-    case 'expect_text': {
-      log.detail(`expect_text → "${step.value}"`);
-      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
-      const locator = step.selector
-        ? resolveSelector(page, step.selector)
-        : page.locator('body');
-      await locator.waitFor({ state: 'visible', timeout });
-      const text = await locator.innerText();
-      if (!text.includes(step.value)) {
-        throw new Error(`Expected text "${step.value}" not found`);
-      }
+    case 'expect_text':
+    case 'expect_url':
+    case 'expect_title':
+    case 'expect_visible':
+    case 'expect_hidden':
+    case 'expect_count':
+    case 'expect_attribute':
+    case 'expect_value':
+    case 'expect_enabled':
+    case 'expect_disabled':
+      log.detail(`${step.type} → ${describeAssertion(step)}`);
+      await performAssertion(page, step);
+      break;
+
+    case 'switch_tab': {
+      const tab = await tabs.switchTo(step.value);
+      log.detail(`switch_tab → ${tab.url()}`);
+      break;
+    }
+
+    case 'close_tab': {
+      const tab = await tabs.closeActive();
+      log.detail(`close_tab → back to ${tab.url()}`);
       break;
     }
 
@@ -172,9 +306,105 @@ async function performAction(page: Page, step: Step): Promise<void> {
       await page.keyboard.press(step.value);
       break;
     }
+
+    case 'hover': {
+      log.detail(`hover → ${step.selector.strategy}="${step.selector.value}"`);
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.hover({ timeout });
+      break;
+    }
+
+    case 'dblclick': {
+      log.detail(`dblclick → ${step.selector.strategy}="${step.selector.value}"`);
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.dblclick({ timeout });
+      break;
+    }
+
+    case 'right_click': {
+      log.detail(`right_click → ${step.selector.strategy}="${step.selector.value}"`);
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const locator = await locate(page, step.selector, timeout, resolutions);
+      await locator.click({ button: 'right', timeout });
+      break;
+    }
+
+    case 'drag': {
+      log.detail(
+        `drag → ${step.source.strategy}="${step.source.value}" onto ${step.target.strategy}="${step.target.value}"`,
+      );
+      const timeout = step.timeout ?? TIMEOUTS.ACTION_TIMEOUT;
+      const source = await locate(page, step.source, timeout, resolutions, 'source');
+      const target = await locate(page, step.target, timeout, resolutions, 'target');
+      await source.dragTo(target, { timeout });
+      break;
+    }
+
+    case 'scroll': {
+      log.detail(`scroll → ${describeScroll(step)}`);
+      const container = step.selector
+        ? await locate(page, step.selector, step.timeout ?? TIMEOUTS.ACTION_TIMEOUT, resolutions)
+        : undefined;
+      const outcome = await performScroll(page, step, container);
+      log.detail(
+        `scrolled ${String(outcome.scrolls)} time(s)${outcome.reachedEnd ? ' — reached the end' : ''}`,
+      );
+      break;
+    }
   }
 }
 
+function describeAssertion(step: AssertionStep): string {
+  switch (step.type) {
+    case 'expect_text':
+    case 'expect_title':
+      return `"${step.value}"`;
+    case 'expect_url':
+      return `/${step.value}/`;
+    case 'expect_count':
+      return `${String(step.count)} × ${step.selector.strategy}="${step.selector.value}"`;
+    case 'expect_attribute':
+      return `${step.selector.strategy}="${step.selector.value}" ${step.attribute}${step.value !== undefined ? `="${step.value}"` : ''}`;
+    case 'expect_value':
+      return `${step.selector.strategy}="${step.selector.value}" = "${step.value}"`;
+    default:
+      return `${step.selector.strategy}="${step.selector.value}"`;
+  }
+}
+
+function describeScroll(step: ScrollStep): string {
+  const where = step.selector ? `${step.selector.strategy}="${step.selector.value}"` : 'page';
+  const until = step.until === undefined
+    ? (step.amount !== undefined ? `${String(step.amount)}px` : 'one screen')
+    : step.until === 'end'
+      ? 'until end'
+      : `until ${step.until.strategy}="${step.until.value}"`;
+  return `${where} ${step.direction ?? 'down'} ${until}`;
+}
+
+// ── Selector resolution ──────────────────────────────────────
+
+/**
+ * Resolve a hint through the healing resolver for steps that act on
+ * an element. Every resolution is recorded, so reports can tell which
+ * strategy matched and flag the healed ones.
+ * Waits and assertions use `resolveSelector` instead — a healed match
+ * there would let them pass against the wrong element.
+ */
+async function locate(
+  page: Page,
+  hint: SelectorHint,
+  timeout: number,
+  resolutions: SelectorResolution[],
+  field: SelectorField = 'selector',
+): Promise<Locator> {
+  const { locator, resolution } = await healSelector(page, hint, timeout);
+  resolutions.push({ field, ...resolution });
+  return locator;
+}
+
 // ── Wait handling ────────────────────────────────────────────
 
 async function handleWait(page: Page, step: WaitStep): Promise<void> {
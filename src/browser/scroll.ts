@@ -0,0 +1,141 @@
+import type { Locator, Page } from 'playwright';
+
+import type { ScrollDirection, ScrollStep } from '../schema/index.js';
+import { LIMITS, TIMEOUTS } from '../config/defaults.js';
+import { describeSelector, resolveSelector } from './selectors.js';
+import * as log from '../utils/logger.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface ScrollOutcome {
+  /** Scrolls actually performed (0 when the target was already visible). */
+  scrolls: number;
+  /** True when the page or container stopped moving and stopped growing. */
+  reachedEnd: boolean;
+}
+
+// ── Constants ────────────────────────────────────────────────
+
+/** A default scroll moves this share of the visible area, keeping some overlap. */
+const DEFAULT_SCROLL_FRACTION = 0.8;
+
+// ── Public API ───────────────────────────────────────────────
+
+/**
+ * Perform a scroll step on the page, or on `container` when the step
+ * targets a scrollable element.
+ *
+ * - no `until`: scroll once by `amount` (or most of a screen)
+ * - `until: <selector>`: scroll until that element is visible, then
+ *   bring it into view; fails if the end is reached first
+ * - `until: "end"`: scroll until the position and the content size
+ *   both stop changing — lazy-loaded lists get time to append rows
+ *   after each scroll
+ */
+export async function performScroll(
+  page: Page,
+  step: ScrollStep,
+  container: Locator | undefined,
+): Promise<ScrollOutcome> {
+  const direction = step.direction ?? 'down';
+  const deadline = step.timeout !== undefined ? Date.now() + step.timeout : undefined;
+
+  if (step.until === undefined) {
+    const moved = await scrollOnce(page, container, direction, step.amount);
+    await page.waitForTimeout(TIMEOUTS.SCROLL_SETTLE);
+    return { scrolls: 1, reachedEnd: !moved };
+  }
+
+  const hint = step.until === 'end' ? undefined : step.until;
+  const target = hint !== undefined ? resolveSelector(page, hint).first() : undefined;
+  let scrolls = 0;
+  let before = await measure(page, container);
+
+  for (;;) {
+    if (target !== undefined && (await target.isVisible())) {
+      await target.scrollIntoViewIfNeeded({ timeout: TIMEOUTS.ACTION_TIMEOUT });
+      return { scrolls, reachedEnd: false };
+    }
+    if (scrolls >= LIMITS.MAX_SCROLLS) break;
+    if (deadline !== undefined && Date.now() >= deadline) break;
+
+    await scrollOnce(page, container, direction, step.amount);
+    await page.waitForTimeout(TIMEOUTS.SCROLL_SETTLE);
+    scrolls++;
+
+    const after = await measure(page, container);
+    if (after.position === before.position && after.extent === before.extent) {
+      if (hint === undefined) return { scrolls, reachedEnd: true };
+      // Last chance: the final scroll may have revealed it
+      if (await target?.isVisible()) continue;
+      throw new Error(`Scrolled to the end without finding ${describeSelector(hint)}`);
+    }
+    before = after;
+  }
+
+  if (hint !== undefined) {
+    throw new Error(`${describeSelector(hint)} not visible after ${String(scrolls)} scroll(s)`);
+  }
+  log.warn(`Scroll stopped after ${String(scrolls)} scroll(s) — content kept loading`);
+  return { scrolls, reachedEnd: false };
+}
+
+// ── Scrolling ────────────────────────────────────────────────
+
+interface ScrollState {
+  /** scrollTop + scrollLeft */
+  position: number;
+  /** scrollHeight + scrollWidth */
+  extent: number;
+}
+
+/** Scroll once; returns false when the position did not change. */
+async function scrollOnce(
+  page: Page,
+  container: Locator | undefined,
+  direction: ScrollDirection,
+  amount: number | undefined,
+): Promise<boolean> {
+  const args = { direction, amount: amount ?? null, fraction: DEFAULT_SCROLL_FRACTION };
+  // Browser-context callbacks: must not reference outer-scope variables
+  if (container === undefined) {
+    return page.evaluate(({ direction, amount, fraction }) => {
+      const root = document.scrollingElement ?? document.documentElement;
+      const horizontal = direction === 'left' || direction === 'right';
+      const sign = direction === 'up' || direction === 'left' ? -1 : 1;
+      const step = sign * (amount ?? Math.round((horizontal ? window.innerWidth : window.innerHeight) * fraction));
+      const start = horizontal ? root.scrollLeft : root.scrollTop;
+      window.scrollBy(horizontal ? step : 0, horizontal ? 0 : step);
+      return (horizontal ? root.scrollLeft : root.scrollTop) !== start;
+    }, args);
+  }
+
+  return container.evaluate((el, { direction, amount, fraction }) => {
+    const horizontal = direction === 'left' || direction === 'right';
+    const sign = direction === 'up' || direction === 'left' ? -1 : 1;
+    const step = sign * (amount ?? Math.round((horizontal ? el.clientWidth : el.clientHeight) * fraction));
+    const start = horizontal ? el.scrollLeft : el.scrollTop;
+    el.scrollBy(horizontal ? step : 0, horizontal ? 0 : step);
+    return (horizontal ? el.scrollLeft : el.scrollTop) !== start;
+  }, args);
+}
+
+/**
+ * Position and size along both axes folded into one pair — a scroll
+ * step only moves along one, so any change means progress.
+ */
+async function measure(page: Page, container: Locator | undefined): Promise<ScrollState> {
+  if (container === undefined) {
+    return page.evaluate(() => {
+      const root = document.scrollingElement ?? document.documentElement;
+      return {
+        position: root.scrollTop + root.scrollLeft,
+        extent: root.scrollHeight + root.scrollWidth,
+      };
+    });
+  }
+  return container.evaluate((el) => ({
+    position: el.scrollTop + el.scrollLeft,
+    extent: el.scrollHeight + el.scrollWidth,
+  }));
+}
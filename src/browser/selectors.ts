@@ -27,8 +27,12 @@ export class SelectorError extends Error {
  *   3. text content → page.getByText(value)
  *   4. css selector → page.locator(value)
  *
- * No auto-fallback: if the strategy is wrong, the locator will
- * fail at action time with a clear error from the runner.
+ * `label` and `placeholder` map to getByLabel / getByPlaceholder, for
+ * form fields. The planner and agent may emit them, and the healing
+ * resolver (see healing.ts) falls back to them.
+ *
+ * No auto-fallback here: this is a pure mapping. Fallback candidates
+ * are tried by `healSelector`, which records what actually matched.
  */
 export function resolveSelector(page: Page, hint: SelectorHint): Locator {
   switch (hint.strategy) {
@@ -43,6 +47,12 @@ export function resolveSelector(page: Page, hint: SelectorHint): Locator {
 
     case 'css':
       return page.locator(hint.value);
+
+    case 'label':
+      return page.getByLabel(hint.value, { exact: true });
+
+    case 'placeholder':
+      return page.getByPlaceholder(hint.value, { exact: true });
   }
 }
 
@@ -80,5 +90,9 @@ export function describeSelector(hint: SelectorHint): string {
       return `text="${hint.value}"`;
     case 'css':
       return hint.value;
+    case 'label':
+      return `label="${hint.value}"`;
+    case 'placeholder':
+      return `placeholder="${hint.value}"`;
   }
 }
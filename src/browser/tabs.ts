@@ -0,0 +1,104 @@
+import type { BrowserContext, Page } from 'playwright';
+
+import { TIMEOUTS } from '../config/defaults.js';
+
+// ── Public interface ─────────────────────────────────────────
+
+export interface TabTracker {
+  /** The tab steps run against. */
+  readonly active: Page;
+  /** Open tabs, in the order they were opened. */
+  readonly pages: readonly Page[];
+  /** Make the tab at `target` (index or URL fragment) active. */
+  switchTo(target: string): Promise<Page>;
+  /** Close the active tab; the most recently opened remaining tab becomes active. */
+  closeActive(): Promise<Page>;
+  /**
+   * Activate tabs opened since the last call — the newest wins — and
+   * return them, oldest first. Call at each step boundary.
+   */
+  adoptOpened(): Promise<Page[]>;
+}
+
+// ── Factory ──────────────────────────────────────────────────
+
+/**
+ * Track every page of `context`, starting with `first`. `onOpen` runs
+ * once per new tab or popup, before any of its content loads — the
+ * place to attach listeners.
+ *
+ * A tab that closes itself (an OAuth popup after consent) is dropped
+ * and, if it was active, the most recently opened tab left takes over.
+ */
+export function trackTabs(
+  context: BrowserContext,
+  first: Page,
+  onOpen: (page: Page) => void,
+): TabTracker {
+  const pages: Page[] = [first];
+  let opened: Page[] = [];
+  let active = first;
+
+  function remove(page: Page): void {
+    const index = pages.indexOf(page);
+    if (index !== -1) pages.splice(index, 1);
+    opened = opened.filter((p) => p !== page);
+    const fallback = pages[pages.length - 1];
+    if (active === page && fallback !== undefined) active = fallback;
+  }
+
+  first.on('close', () => remove(first));
+  context.on('page', (page) => {
+    onOpen(page);
+    pages.push(page);
+    opened.push(page);
+    page.on('close', () => remove(page));
+  });
+
+  return {
+    get active() {
+      return active;
+    },
+
+    get pages() {
+      return [...pages];
+    },
+
+    async switchTo(target) {
+      const page = /^\d+$/.test(target)
+        ? pages[Number(target)]
+        : pages.find((p) => p.url().includes(target));
+      if (page === undefined) {
+        const open = pages.map((p, i) => `${String(i)}: ${p.url()}`).join(', ');
+        throw new Error(`No tab matches "${target}" (open tabs: ${open})`);
+      }
+      active = page;
+      await page.bringToFront();
+      return page;
+    },
+
+    async closeActive() {
+      if (pages.length === 1) {
+        throw new Error('Cannot close the only open tab');
+      }
+      const closing = active;
+      await closing.close();
+      remove(closing);
+      await active.bringToFront();
+      return active;
+    },
+
+    async adoptOpened() {
+      const adopted = opened;
+      opened = [];
+      const newest = adopted[adopted.length - 1];
+      if (newest !== undefined) {
+        active = newest;
+        await newest
+          .waitForLoadState('domcontentloaded', { timeout: TIMEOUTS.NAVIGATION_TIMEOUT })
+          .catch(() => {});
+      }
+      return adopted;
+    },
+  };
+}
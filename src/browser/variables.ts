@@ -0,0 +1,102 @@
+import type { Step } from '../schema/index.js';
+import { addSecret } from '../utils/redact.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+/**
+ * A value steps can reference as `${{ name }}`. It is computed when
+ * the step executes — a one-time code must be fresh, and the real
+ * value never reaches the planner, the agent or the step artifacts.
+ */
+export interface StepVariable {
+  /** Tells the model when to use the placeholder. */
+  description: string;
+  value(): string;
+}
+
+export type StepVariables = Readonly<Record<string, StepVariable>>;
+
+// ── Public API ──────────────────────────────────────────────
+
+const PLACEHOLDER = /\$\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** The `${{ name }}` reference for a variable. */
+export function placeholder(name: string): string {
+  return `\${{ ${name} }}`;
+}
+
+/**
+ * Replace known placeholders in the step's value. Unknown names are
+ * left untouched so the failure shows what the step asked for.
+ */
+export function resolveStepVariables<T extends Step>(
+  step: T,
+  variables: StepVariables | undefined,
+): T {
+  if (!variables || !('value' in step) || typeof step.value !== 'string') {
+    return step;
+  }
+
+  const value = step.value.replace(PLACEHOLDER, (match, name: string) => {
+    const variable = variables[name];
+    return variable ? variable.value() : match;
+  });
+  return value === step.value ? step : { ...step, value };
+}
+
+/**
+ * Variables for every `${{ secrets.NAME }}` and `${{ env.NAME }}` in
+ * `texts`, read from the environment. Secret values are registered
+ * for redaction; a missing variable fails before the browser starts.
+ */
+export function templateVariables(
+  texts: readonly (string | undefined)[],
+  env: NodeJS.ProcessEnv = process.env,
+): StepVariables {
+  const variables: Record<string, StepVariable> = {};
+
+  for (const text of texts) {
+    for (const [, name] of (text ?? '').matchAll(PLACEHOLDER)) {
+      const [scope, key, ...rest] = name!.split('.');
+      if ((scope !== 'secrets' && scope !== 'env') || key === undefined || rest.length > 0) {
+        continue;
+      }
+
+      const value = env[key];
+      if (value === undefined) {
+        throw new Error(`${placeholder(name!)} is used but ${key} is not set in the environment`);
+      }
+      if (scope === 'secrets') {
+        addSecret(value);
+      }
+
+      variables[name!] = {
+        description: scope === 'secrets'
+          ? `the secret ${key} (its value is hidden from you)`
+          : `the environment variable ${key}`,
+        value: () => value,
+      };
+    }
+  }
+  return variables;
+}
+
+/**
+ * Append the available placeholders to a prompt so the model types
+ * them verbatim instead of asking for the value.
+ */
+export function withVariableHints(
+  prompt: string,
+  variables: StepVariables | undefined,
+): string {
+  const names = Object.keys(variables ?? {});
+  if (names.length === 0) return prompt;
+
+  const lines = names.map((name) => `- ${placeholder(name)}: ${variables![name]!.description}`);
+  return [
+    prompt,
+    '',
+    'These placeholders are filled in when the step runs. Type them exactly as written:',
+    ...lines,
+  ].join('\n');
+}
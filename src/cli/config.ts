@@ -0,0 +1,95 @@
+import type { Command } from 'commander';
+
+import { describeSource, resolveAdHocConfig, sourceOf } from '../config/loader.js';
+import type { ConfigSource } from '../config/loader.js';
+import type { AdHocConfig } from '../schema/index.js';
+import { REDACTED } from '../utils/redact.js';
+import { addSettingOptions, toOverrides } from './settings.js';
+import type { SettingFlags } from './settings.js';
+
+// ── Printing ─────────────────────────────────────────────────
+
+// Credentials are shown as set, never spelled out
+const SENSITIVE_KEYS = new Set(['cookie', 'cookies', 'password', 'bearer', 'headers']);
+
+interface PrintedSetting {
+  key: string;
+  value: string;
+  source: ConfigSource;
+}
+
+/** One `key = value  (source)` line per effective setting. */
+function formatSettings(
+  config: AdHocConfig,
+  sources: ReadonlyMap<string, ConfigSource>,
+): string {
+  const settings = flatten(config, []).map(({ path, value }): PrintedSetting => ({
+    key: path.join('.'),
+    value: formatValue(path, value),
+    source: sourceOf(sources, path),
+  }));
+
+  const width = Math.max(0, ...settings.map((s) => `${s.key} = ${s.value}`.length));
+  return settings
+    .map((s) => `${`${s.key} = ${s.value}`.padEnd(width)}  (${describeSource(s.source)})`)
+    .join('\n');
+}
+
+function flatten(value: unknown, path: string[]): { path: string[]; value: unknown }[] {
+  if (
+    typeof value !== 'object' || value === null || Array.isArray(value) ||
+    Object.keys(value).length === 0 || path[path.length - 1] === 'headers'
+  ) {
+    return value === undefined ? [] : [{ path, value }];
+  }
+  return Object.entries(value).flatMap(([key, child]) => flatten(child, [...path, key]));
+}
+
+function formatValue(path: readonly string[], value: unknown): string {
+  const key = path[path.length - 1] ?? '';
+  // `successCheck.cookie` names a cookie, it holds no value
+  if (SENSITIVE_KEYS.has(key) && path[path.length - 2] !== 'successCheck') {
+    return REDACTED;
+  }
+  if (path.length === 1 && key === 'tests' && Array.isArray(value)) {
+    return value.length === 1 ? '1 test' : `${String(value.length)} tests`;
+  }
+  return JSON.stringify(value);
+}
+
+// ── Command registration ─────────────────────────────────────
+
+export function registerConfigCommand(program: Command): void {
+  const command = program
+    .command('config')
+    .description('Show the effective configuration and where each setting comes from')
+    .option('--print', 'Print every effective setting with its source');
+
+  addSettingOptions(command, { workers: true }).action(
+    async (opts: SettingFlags & { print?: true }) => {
+      if (!opts.print) {
+        command.help();
+      }
+
+      try {
+        const resolved = await resolveAdHocConfig({
+          configPath: opts.config,
+          environment: opts.env,
+          overrides: toOverrides(opts),
+        });
+
+        const file = resolved.configPath ?? `none (${opts.config} not found)`;
+        const environment = resolved.environment !== undefined
+          ? `, environment ${resolved.environment}`
+          : '';
+        process.stdout.write(`# Config file: ${file}${environment}\n`);
+        process.stdout.write(`${formatSettings(resolved.config, resolved.sources)}\n`);
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : String(err);
+        process.stderr.write(`Config error: ${message}\n`);
+        process.exitCode = 4;
+      }
+    },
+  );
+}
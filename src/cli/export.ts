@@ -0,0 +1,102 @@
+import { readFile, readdir, stat, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { Command } from 'commander';
+
+import type { StepExecutionResult } from '../schema/index.js';
+import { planFileSchema, stepExecutionResultSchema } from '../schema/index.js';
+import { generatePlaywrightSpec, stepsFromResults } from '../report/exporter.js';
+import type { SpecExportInput } from '../report/exporter.js';
+
+// ── Source loading ───────────────────────────────────────────
+
+const STEP_ARTIFACT_PATTERN = /^step-(\d+)\.json$/;
+
+/**
+ * Load exportable steps from a run directory (step-N.json artifacts)
+ * or a recorded plan.json.
+ */
+async function loadExportSource(
+  sourcePath: string,
+): Promise<Omit<SpecExportInput, 'title'>> {
+  const info = await stat(sourcePath);
+
+  if (info.isDirectory()) {
+    const files = (await readdir(sourcePath))
+      .filter((f) => STEP_ARTIFACT_PATTERN.test(f));
+    if (files.length === 0) {
+      throw new Error(`No step-N.json artifacts found in ${sourcePath}`);
+    }
+
+    const results: StepExecutionResult[] = [];
+    for (const file of files) {
+      const raw = await readFile(path.join(sourcePath, file), 'utf-8');
+      results.push(stepExecutionResultSchema.parse(JSON.parse(raw)));
+    }
+    return { steps: stepsFromResults(results) };
+  }
+
+  const data: unknown = JSON.parse(await readFile(sourcePath, 'utf-8'));
+
+  const plan = planFileSchema.safeParse(data);
+  if (plan.success) {
+    return {
+      prompt: plan.data.prompt,
+      loginSteps: plan.data.loginSteps,
+      steps: plan.data.steps,
+    };
+  }
+
+  throw new Error(
+    `${sourcePath} is not a plan file. ` +
+      'Pass the run directory to export from its step-N.json artifacts.',
+  );
+}
+
+// ── Command registration ─────────────────────────────────────
+
+export function registerExportCommand(program: Command): void {
+  program
+    .command('export')
+    .description('Export an executed run as a Playwright Test spec file')
+    .argument(
+      '<source>',
+      'Run directory with step-N.json artifacts, or a plan.json',
+    )
+    .option('--out <file>', 'Write the spec to a file instead of stdout')
+    .option('--name <title>', 'Test title', 'promptqa exported flow')
+    .action(
+      async (
+        source: string,
+        opts: {
+          out?: string;
+          name: string;
+        },
+      ) => {
+        try {
+          const loaded = await loadExportSource(source);
+          if (loaded.steps.length === 0) {
+            throw new Error('Source contains no successful steps to export');
+          }
+
+          const spec = generatePlaywrightSpec({ ...loaded, title: opts.name });
+
+          if (opts.out !== undefined) {
+            const outPath = path.resolve(opts.out);
+            await mkdir(path.dirname(outPath), { recursive: true });
+            await writeFile(outPath, spec, 'utf-8');
+            process.stderr.write(
+              `Exported ${String(loaded.steps.length)} steps to ${outPath}\n`,
+            );
+          } else {
+            process.stdout.write(spec);
+          }
+        } catch (err) {
+          const message =
+            err instanceof Error ? err.message : String(err);
+          process.stderr.write(`Export error: ${message}\n`);
+          process.exitCode = 4;
+        }
+      },
+    );
+}
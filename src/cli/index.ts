@@ -4,4 +4,8 @@
  * No business logic lives here.
  */
 
-export { registerTestCommand, registerRunCommand } from './run.js';
+export { registerTestCommand, registerRunCommand, registerReplayCommand } from './run.js';
+export { registerExportCommand } from './export.js';
+export { registerConfigCommand } from './config.js';
+export { registerInitCommand } from './init.js';
+export { registerValidateCommand } from './validate.js';
@@ -0,0 +1,207 @@
+import { access, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+
+import { Option } from 'commander';
+import type { Command } from 'commander';
+
+import type { PageSnapshot } from '../schema/index.js';
+import { launchBrowser } from '../browser/runner.js';
+import { prescanPage } from '../browser/prescan.js';
+import { renderConfigFile, renderEnvExample, suggestTests } from '../config/scaffold.js';
+import type { InitAnswers, InitAuthStyle, InitProvider } from '../config/scaffold.js';
+
+// ── Prompts ──────────────────────────────────────────────────
+
+const PROVIDERS: readonly InitProvider[] = ['anthropic', 'openai', 'local'];
+const AUTH_STYLES: readonly InitAuthStyle[] = ['none', 'login', 'cookie'];
+
+const DEFAULT_BASE_URL = 'http://localhost:3000';
+const DEFAULT_LOCAL_LLM_URL = 'http://localhost:11434/v1';
+
+interface Prompter {
+  /** The next line of input, after showing `question`. */
+  readLine(question: string): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Questions on stderr, answers from stdin. Lines are buffered, so
+ * answers piped in ahead of the questions are not lost.
+ */
+function createPrompter(): Prompter {
+  const rl = createInterface({ input: process.stdin, output: process.stderr, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  return {
+    async readLine(question) {
+      process.stderr.write(question);
+      const next = await lines.next();
+      if (next.done) {
+        throw new Error('Input ended before all questions were answered (use --yes for defaults)');
+      }
+      return next.value;
+    },
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * Ask until the answer passes `check`, which returns an error message
+ * for invalid input. An empty answer takes the default.
+ */
+async function ask(
+  rl: Prompter,
+  question: string,
+  fallback: string,
+  check: (answer: string) => string | undefined = () => undefined,
+): Promise<string> {
+  for (;;) {
+    const answer = (await rl.readLine(`${question} (${fallback}): `)).trim() || fallback;
+    const problem = check(answer);
+    if (problem === undefined) return answer;
+    process.stderr.write(`  ${problem}\n`);
+  }
+}
+
+async function choose<T extends string>(
+  rl: Prompter,
+  question: string,
+  choices: readonly T[],
+  fallback: T,
+): Promise<T> {
+  const answer = await ask(rl, `${question} [${choices.join('/')}]`, fallback, (value) =>
+    choices.includes(value as T) ? undefined : `Choose one of: ${choices.join(', ')}`,
+  );
+  return answer as T;
+}
+
+async function confirm(rl: Prompter, question: string, fallback: boolean): Promise<boolean> {
+  const answer = await ask(rl, `${question} [y/n]`, fallback ? 'y' : 'n', (value) =>
+    /^(y|yes|n|no)$/i.test(value) ? undefined : 'Answer y or n',
+  );
+  return /^y/i.test(answer);
+}
+
+function checkUrl(value: string): string | undefined {
+  return URL.canParse(value) && /^https?:$/.test(new URL(value).protocol)
+    ? undefined
+    : 'Enter a full http(s) URL, e.g. https://app.example.com';
+}
+
+// ── Page scan ────────────────────────────────────────────────
+
+/** Snapshot of the base URL, or undefined if the browser can't reach it. */
+async function scanBaseUrl(baseUrl: string): Promise<PageSnapshot | undefined> {
+  process.stderr.write(`Scanning ${baseUrl} ...\n`);
+  const browser = await launchBrowser(true).catch((err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Scan skipped: cannot start the browser: ${message}\n`);
+    return undefined;
+  });
+  if (browser === undefined) return undefined;
+
+  try {
+    const page = await browser.newPage();
+    return await prescanPage(page, baseUrl);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Scan skipped: ${message}\n`);
+    return undefined;
+  } finally {
+    await browser.close();
+  }
+}
+
+// ── File writing ─────────────────────────────────────────────
+
+async function exists(filePath: string): Promise<boolean> {
+  return access(filePath).then(() => true, () => false);
+}
+
+// ── Command registration ─────────────────────────────────────
+
+export function registerInitCommand(program: Command): void {
+  program
+    .command('init')
+    .description('Create a .promptqa.yaml and .env.example for a new project')
+    .option('--config <path>', 'Where to write the config file', '.promptqa.yaml')
+    .option('--base-url <url>', 'URL of the app under test')
+    .addOption(new Option('--provider <name>', 'LLM provider').choices(PROVIDERS))
+    .addOption(new Option('--auth <style>', 'How tests log in').choices(AUTH_STYLES))
+    .option('--no-prescan', 'Do not scan the base URL for starter tests')
+    .option('-y, --yes', 'Accept defaults instead of asking')
+    .option('--force', 'Overwrite existing files')
+    .action(
+      async (opts: {
+        config: string;
+        baseUrl?: string;
+        provider?: InitProvider;
+        auth?: InitAuthStyle;
+        prescan: boolean;
+        yes?: true;
+        force?: true;
+      }) => {
+        const configPath = path.resolve(opts.config);
+        const envExamplePath = path.join(path.dirname(configPath), '.env.example');
+        const rl = opts.yes ? undefined : createPrompter();
+
+        try {
+          if (!opts.force && (await exists(configPath))) {
+            throw new Error(`${opts.config} already exists (use --force to overwrite)`);
+          }
+          if (opts.baseUrl !== undefined) {
+            const problem = checkUrl(opts.baseUrl);
+            if (problem !== undefined) throw new Error(`--base-url: ${problem}`);
+          }
+
+          // 1. Answers — flags first, then questions, then defaults
+          const baseUrl = opts.baseUrl
+            ?? (rl ? await ask(rl, 'Base URL of the app under test', DEFAULT_BASE_URL, checkUrl) : DEFAULT_BASE_URL);
+          const provider = opts.provider
+            ?? (rl ? await choose(rl, 'LLM provider', PROVIDERS, 'anthropic') : 'anthropic');
+          const llmBaseUrl = provider !== 'local'
+            ? undefined
+            : rl
+              ? await ask(rl, 'OpenAI-compatible server URL', DEFAULT_LOCAL_LLM_URL, checkUrl)
+              : DEFAULT_LOCAL_LLM_URL;
+          const auth = opts.auth
+            ?? (rl ? await choose(rl, 'How do tests log in', AUTH_STYLES, 'none') : 'none');
+          const prescan = opts.prescan &&
+            (rl ? await confirm(rl, `Scan ${baseUrl} to suggest starter tests?`, true) : true);
+
+          const answers: InitAnswers = {
+            baseUrl,
+            provider,
+            auth,
+            ...(llmBaseUrl !== undefined ? { llmBaseUrl } : {}),
+          };
+
+          // 2. Starter tests, from the page when it could be scanned
+          const snapshot = prescan ? await scanBaseUrl(baseUrl) : undefined;
+          const tests = suggestTests(snapshot, auth);
+
+          // 3. Write files — an existing .env.example is kept unless --force
+          await writeFile(configPath, renderConfigFile(answers, tests), 'utf-8');
+          process.stderr.write(`Wrote ${configPath} with ${String(tests.length)} starter test(s)\n`);
+
+          if (opts.force || !(await exists(envExamplePath))) {
+            await writeFile(envExamplePath, renderEnvExample(answers), 'utf-8');
+            process.stderr.write(`Wrote ${envExamplePath}\n`);
+          } else {
+            process.stderr.write(`Kept existing ${envExamplePath}\n`);
+          }
+
+          process.stderr.write(
+            '\nNext: copy .env.example to .env, fill in the values, then run `promptqa run`.\n',
+          );
+        } catch (err) {
+          const message =
+            err instanceof Error ? err.message : String(err);
+          process.stderr.write(`Init error: ${message}\n`);
+          process.exitCode = 4;
+        } finally {
+          rl?.close();
+        }
+      },
+    );
+}
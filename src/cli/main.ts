@@ -8,7 +8,11 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 
-import { registerTestCommand, registerRunCommand } from './run.js';
+import { registerTestCommand, registerRunCommand, registerReplayCommand } from './run.js';
+import { registerExportCommand } from './export.js';
+import { registerConfigCommand } from './config.js';
+import { registerInitCommand } from './init.js';
+import { registerValidateCommand } from './validate.js';
 
 const program = new Command();
 
@@ -21,5 +25,10 @@ program
 
 registerTestCommand(program);
 registerRunCommand(program);
+registerReplayCommand(program);
+registerExportCommand(program);
+registerConfigCommand(program);
+registerInitCommand(program);
+registerValidateCommand(program);
 
 program.parse();
@@ -1,51 +1,52 @@
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { writeFile, mkdir } from 'node:fs/promises';
 import path from 'node:path';
 
+import { Option } from 'commander';
 import type { Command } from 'commander';
-import { parse as parseYaml } from 'yaml';
-
-import type { RunSummary } from '../schema/index.js';
-import type { CookieParam } from '../browser/runner.js';
-import { createLLMClient, loadLLMConfig } from '../llm/index.js';
-import type { LLMConfig } from '../llm/index.js';
+import type { Browser } from 'playwright';
+
+import type {
+  AuthConfig,
+  AuthCookie,
+  AuthRole,
+  AuthStorageState,
+  BudgetConfig,
+  BudgetLimits,
+  RunSummary,
+} from '../schema/index.js';
+import { authStorageStateSchema } from '../schema/index.js';
+import type { CookieParam, HttpAuth } from '../browser/runner.js';
+import { authStatePath } from '../browser/authState.js';
+import type { AuthStateIdentity, AuthStateOptions } from '../browser/authState.js';
+import { totpVariable } from '../browser/auth.js';
+import { templateVariables } from '../browser/variables.js';
+import { createLLMClient, createUsageTracker, loadLLMConfig } from '../llm/index.js';
+import type { LLMClient } from '../llm/index.js';
 import { runAgentLoop } from '../core/agentLoop.js';
+import type { AgentLoopConfig } from '../core/agentLoop.js';
 import { runAgentLoopV2 } from '../core/agentLoopV2.js';
+import { runReplay } from '../core/replay.js';
+import { loadPlanFile } from '../core/planFile.js';
 import { generateMarkdown, generateJSON, serializeJSON } from '../report/reporter.js';
-import { LIMITS, TIMEOUTS } from '../config/defaults.js';
-import { loadConfigFile as loadValidatedConfig } from '../config/loader.js';
-import type { FileConfig as ValidatedFileConfig } from '../schema/config.js';
-
-// ── Config file shape ────────────────────────────────────────
-
-interface FileConfig {
-  headless?: boolean;
-  maxSteps?: number;
-  timeout?: number;
-  reportPath?: string;
-  cookie?: string;
-  loginPrompt?: string;
-}
-
-// ── Config file loading ──────────────────────────────────────
-
-async function loadConfigFile(configPath: string): Promise<FileConfig> {
-  try {
-    const raw = await readFile(configPath, 'utf-8');
-    if (configPath.endsWith('.json')) {
-      return JSON.parse(raw) as FileConfig;
-    }
-    return (parseYaml(raw) ?? {}) as FileConfig;
-  } catch {
-    return {};
-  }
-}
+import { generateHTML, inlineScreenshots } from '../report/html.js';
+import { generateJUnit } from '../report/junit.js';
+import type { JUnitTestCase, JUnitUncertainMode } from '../report/junit.js';
+import { resolveAdHocConfig, resolveFileConfig } from '../config/loader.js';
+import { expandTests } from '../config/matrix.js';
+import type { TestCase } from '../config/matrix.js';
+import type { AdHocConfig, FileConfig } from '../schema/config.js';
+import { launchBrowser } from '../browser/runner.js';
+import * as log from '../utils/logger.js';
+import { addSecret, redact, redactJson } from '../utils/redact.js';
+import { addSettingOptions, toOverrides } from './settings.js';
+import type { SettingFlags } from './settings.js';
 
 // ── Cookie parsing ───────────────────────────────────────────
 
 function parseCookies(raw: string, url: string): CookieParam[] {
   return raw
     .split(';')
-    .map((pair) => {
+    .map((pair): CookieParam | null => {
       const eqIndex = pair.indexOf('=');
       if (eqIndex === -1) return null;
       const name = pair.slice(0, eqIndex).trim();
@@ -56,6 +57,52 @@ function parseCookies(raw: string, url: string): CookieParam[] {
     .filter((c): c is CookieParam => c !== null);
 }
 
+/** A configured cookie, scoped to the test URL unless it says otherwise. */
+function toCookieParam(cookie: AuthCookie, url: string): CookieParam {
+  const { url: cookieUrl, domain, path: cookiePath, ...rest } = cookie;
+  const scope = cookieUrl !== undefined || (domain === undefined && cookiePath === undefined)
+    ? { url: cookieUrl ?? url }
+    : { domain: domain ?? new URL(url).hostname, path: cookiePath ?? '/' };
+  return {
+    ...scope,
+    name: rest.name,
+    value: rest.value,
+    ...(rest.expires !== undefined ? { expires: rest.expires } : {}),
+    ...(rest.httpOnly !== undefined ? { httpOnly: rest.httpOnly } : {}),
+    ...(rest.secure !== undefined ? { secure: rest.secure } : {}),
+    ...(rest.sameSite !== undefined ? { sameSite: rest.sameSite } : {}),
+  };
+}
+
+// ── HTTP auth ────────────────────────────────────────────────
+
+/**
+ * Headers, bearer token and basic credentials for the test's origin,
+ * or undefined when the role has none. Tokens and passwords are
+ * registered for redaction.
+ */
+function resolveHttpAuth(auth: AuthRole, url: string): HttpAuth | undefined {
+  const headers: Record<string, string> = { ...auth.headers };
+  if (auth.bearer !== undefined) {
+    for (const name of Object.keys(headers)) {
+      if (name.toLowerCase() === 'authorization') delete headers[name];
+    }
+    headers['Authorization'] = `Bearer ${auth.bearer}`;
+    addSecret(auth.bearer);
+  }
+  if (auth.basic !== undefined) {
+    addSecret(auth.basic.password);
+  }
+
+  const hasHeaders = Object.keys(headers).length > 0;
+  if (!hasHeaders && auth.basic === undefined) return undefined;
+  return {
+    origin: new URL(url).origin,
+    ...(hasHeaders ? { headers } : {}),
+    ...(auth.basic !== undefined ? { credentials: auth.basic } : {}),
+  };
+}
+
 // ── Stderr summary ───────────────────────────────────────────
 
 function printSummary(summary: RunSummary): void {
@@ -69,142 +116,331 @@ function printSummary(summary: RunSummary): void {
     (s) => s.evaluation?.result === 'UNCERTAIN',
   ).length;
 
-  process.stderr.write(`\n--- PromptQA Result ---\n`);
-  process.stderr.write(`URL:     ${summary.url}\n`);
-  process.stderr.write(`Prompt:  ${summary.prompt}\n`);
-  process.stderr.write(`Result:  ${summary.summary}\n`);
-  process.stderr.write(
-    `Steps:   ${String(passed)} passed, ${String(failed)} failed, ${String(uncertain)} uncertain\n`,
+  const lines = [
+    '',
+    '--- PromptQA Result ---',
+    `URL:     ${summary.url}`,
+    `Prompt:  ${summary.prompt}`,
+    `Result:  ${summary.summary}`,
+    `Steps:   ${String(passed)} passed, ${String(failed)} failed, ${String(uncertain)} uncertain`,
+    `Bugs:    ${String(summary.bugs.length)}`,
+  ];
+  if (summary.environment !== undefined) {
+    lines.push(`Env:     ${summary.environment}`);
+  }
+  if (summary.role !== undefined) {
+    lines.push(`Role:    ${summary.role}`);
+  }
+  if (summary.parameters !== undefined) {
+    const values = Object.entries(summary.parameters).map(([name, value]) => `${name}=${value}`);
+    lines.push(`Params:  ${values.join(', ')}`);
+  }
+  if (summary.login !== undefined) {
+    const reason = summary.login.reason !== undefined ? ` — ${summary.login.reason}` : '';
+    lines.push(`Login:   ${summary.login.status}${reason}`);
+  }
+  if (summary.usage !== undefined && summary.usage.total.calls > 0) {
+    const { total } = summary.usage;
+    const cost = total.estimatedCostUsd !== undefined
+      ? `, ~$${total.estimatedCostUsd.toFixed(4)}`
+      : '';
+    lines.push(
+      `LLM:     ${String(total.calls)} calls, ${String(total.inputTokens)} in / ${String(total.outputTokens)} out tokens${cost}`,
+    );
+  }
+  lines.push(`Time:    ${(summary.durationMs / 1000).toFixed(1)}s`);
+  lines.push(`Run ID:  ${summary.runId}`, '');
+
+  // One write through the logger: parallel tests keep their block
+  // together and tagged with the test name
+  log.plain(lines.join('\n'));
+}
+
+/** One line per test, in config order, once a multi-test run ends. */
+function printSuiteSummary(
+  tests: readonly TestCase[],
+  outcomes: readonly JUnitTestCase[],
+): void {
+  const byName = new Map(outcomes.map((o) => [o.name, o]));
+  process.stderr.write(`--- PromptQA Suite (${String(tests.length)} tests) ---\n`);
+  for (const test of tests) {
+    const outcome = byName.get(test.name);
+    const result = outcome?.summary?.summary ?? (outcome !== undefined ? 'ERROR' : 'NOT RUN');
+    process.stderr.write(`${result.padEnd(10)} ${test.name}\n`);
+  }
+  process.stderr.write('\n');
+}
+
+// ── Report files ─────────────────────────────────────────────
+
+/** A test name usable as one directory level on any platform. */
+function safeDirName(name: string): string {
+  return name.replace(/[/\\:*?"<>|]/g, '_');
+}
+
+/**
+ * Write report.md and a self-contained report.html (screenshots
+ * inlined) next to summary.json.
+ */
+async function writeReports(outputDir: string, run: RunSummary): Promise<void> {
+  const summary = redactJson(run);
+  await writeFile(
+    path.join(outputDir, 'report.md'),
+    generateMarkdown(summary),
+    'utf-8',
   );
-  process.stderr.write(`Bugs:    ${String(summary.bugs.length)}\n`);
-  process.stderr.write(
-    `Time:    ${(summary.durationMs / 1000).toFixed(1)}s\n`,
+
+  const screenshotSrc = await inlineScreenshots(summary, outputDir);
+  await writeFile(
+    path.join(outputDir, 'report.html'),
+    generateHTML(summary, { screenshotSrc }),
+    'utf-8',
   );
-  process.stderr.write(`Run ID:  ${summary.runId}\n\n`);
+}
+
+// ── JUnit output ─────────────────────────────────────────────
+
+function junitUncertainOption(): Option {
+  return new Option(
+    '--junit-uncertain <mode>',
+    'How UNCERTAIN verdicts appear in JUnit output',
+  )
+    .choices(['skipped', 'failure'])
+    .default('skipped');
+}
+
+async function writeJUnit(
+  filePath: string,
+  cases: readonly JUnitTestCase[],
+  uncertain: JUnitUncertainMode,
+): Promise<void> {
+  const outPath = path.resolve(filePath);
+  await mkdir(path.dirname(outPath), { recursive: true });
+  await writeFile(outPath, redact(generateJUnit(cases, { uncertain })), 'utf-8');
+}
+
+// ── LLM client and budget ────────────────────────────────────
+
+/** A client for the resolved provider, model and server. */
+function createClientFromConfig(config: FileConfig | AdHocConfig): LLMClient {
+  const llmConfig = loadLLMConfig(config.provider);
+  return createLLMClient({
+    ...llmConfig,
+    model: config.model ?? llmConfig.model,
+    ...(config.llmBaseUrl !== undefined ? { baseUrl: config.llmBaseUrl } : {}),
+    ...(config.llmVision !== undefined ? { vision: config.llmVision } : {}),
+  });
+}
+
+/** Per-test limits from `budget`, without the suite-wide ones. */
+function perTestBudget(budget: BudgetConfig | undefined): BudgetLimits | undefined {
+  if (budget === undefined) return undefined;
+  const { suite: _suite, ...limits } = budget;
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+// ── Persisted login ──────────────────────────────────────────
+
+/**
+ * Credentials for a test: its named role, or the top-level auth
+ * fields when it has none. `--cookie` and `--login-prompt` win over
+ * the role's own.
+ */
+function resolveRole(
+  auth: AuthConfig | undefined,
+  role: string | undefined,
+  flags: Pick<SettingFlags, 'cookie' | 'loginPrompt'>,
+): AuthRole {
+  const named = role === undefined ? auth ?? {} : auth?.roles?.[role] ?? {};
+  const successCheck = named.successCheck ?? auth?.successCheck;
+  return {
+    ...named,
+    ...(successCheck !== undefined ? { successCheck } : {}),
+    ...(flags.cookie !== undefined ? { cookie: flags.cookie } : {}),
+    ...(flags.loginPrompt !== undefined ? { loginPrompt: flags.loginPrompt } : {}),
+  };
+}
+
+/**
+ * The loop settings that log a test in as `roleAuth`: cookies, HTTP
+ * auth, and the login prompt with its cache and success check.
+ */
+function authLoopConfig(
+  roleAuth: AuthRole,
+  url: string,
+  storage: AuthStorageState,
+  role: string | undefined,
+  refreshSince: number | undefined,
+): Pick<AgentLoopConfig, 'cookies' | 'httpAuth' | 'loginPrompt' | 'authState' | 'loginCheck'> {
+  const { cookie, loginPrompt } = roleAuth;
+  const cookies = [
+    ...(cookie !== undefined ? parseCookies(cookie, url) : []),
+    ...(roleAuth.cookies ?? []).map((c) => toCookieParam(c, url)),
+  ];
+
+  return {
+    httpAuth: resolveHttpAuth(roleAuth, url),
+    ...(cookies.length > 0 ? { cookies } : {}),
+    ...(loginPrompt !== undefined
+      ? {
+        loginPrompt,
+        authState: resolveAuthState(storage, { url, loginPrompt, cookie, role }, refreshSince),
+        loginCheck: roleAuth.successCheck,
+      }
+      : {}),
+  };
+}
+
+/**
+ * Where a test's login is cached. `refreshSince` (from --refresh-auth)
+ * makes states saved before this invocation count as stale.
+ */
+function resolveAuthState(
+  settings: AuthStorageState,
+  identity: AuthStateIdentity,
+  refreshSince: number | undefined,
+): AuthStateOptions | undefined {
+  if (!settings.enabled) return undefined;
+  return {
+    path: authStatePath(path.resolve(settings.dir), identity),
+    ttlMs: settings.ttl * 1000,
+    notBefore: refreshSince,
+  };
+}
+
+// ── Worker pool ──────────────────────────────────────────────
+
+/**
+ * Run `fn` over `items` with at most `workers` in flight.
+ * Results keep the input order.
+ */
+async function runWithWorkers<T, R>(
+  items: readonly T[],
+  workers: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  }
+
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+  return results;
 }
 
 // ── Command registration ─────────────────────────────────────
 
 export function registerTestCommand(program: Command): void {
-  program
+  const command = program
     .command('test')
     .description('Run a prompt-driven test against a URL')
     .argument('<url>', 'Target URL to test')
     .argument('<prompt>', 'Natural language test prompt')
-    .option('--json', 'Output JSON to stdout')
-    .option(
-      '--report-path <dir>',
-      'Custom artifact directory',
-      '.artifacts',
-    )
-    .option(
-      '--max-steps <n>',
-      'Override max steps',
-      String(LIMITS.MAX_STEPS),
-    )
-    .option('--headless', 'Run browser headless')
-    .option(
-      '--timeout <seconds>',
-      'Total run timeout in seconds',
-      String(TIMEOUTS.TOTAL_RUN_TIMEOUT / 1000),
-    )
-    .option(
-      '--config <path>',
-      'Path to config file',
-      '.promptqa.yaml',
-    )
-    .option('--cookie <string>', 'Pre-authenticated cookie string')
-    .option(
-      '--login-prompt <prompt>',
-      'Login prompt to execute before test',
-    )
+    .option('--json', 'Output JSON to stdout');
+
+  addSettingOptions(command, { workers: false })
+    .option('--refresh-auth', 'Log in again even if a saved login session is still valid')
     .option('--v2', 'Use V2 observe-decide-act agent loop')
+    .option('--junit <file>', 'Write a JUnit XML report to <file>')
+    .addOption(junitUncertainOption())
     .action(
       async (
         url: string,
         prompt: string,
-        opts: {
+        opts: SettingFlags & {
           json?: true;
-          reportPath: string;
-          maxSteps: string;
-          headless?: true;
-          timeout: string;
-          config: string;
-          cookie?: string;
-          loginPrompt?: string;
+          refreshAuth?: true;
           v2?: true;
+          junit?: string;
+          junitUncertain: JUnitUncertainMode;
         },
       ) => {
-        // Resolve report path early so it's available in the catch block
-        const reportPath = opts.reportPath ?? '.artifacts';
+        // Replaced once the config resolves, so errors after that land
+        // in the configured directory
+        let reportPath = opts.reportPath ?? '.artifacts';
+        const startedAt = Date.now();
 
         try {
-          // 1. Load config file (CLI flags override)
-          const fileConfig = await loadConfigFile(opts.config);
-
-          // 2. Merge config: CLI flags take precedence
-          const headless =
-            opts.headless ?? fileConfig.headless ?? false;
-          const maxSteps =
-            Number(opts.maxSteps) || fileConfig.maxSteps || LIMITS.MAX_STEPS;
-          const timeoutSec =
-            Number(opts.timeout) ||
-            fileConfig.timeout ||
-            TIMEOUTS.TOTAL_RUN_TIMEOUT / 1000;
-          const resolvedReportPath = fileConfig.reportPath ?? reportPath;
-          const cookieString = opts.cookie ?? fileConfig.cookie;
-          const loginPrompt = opts.loginPrompt ?? fileConfig.loginPrompt;
-
-          // 3. Parse cookies
-          const cookies =
-            cookieString !== undefined
-              ? parseCookies(cookieString, url)
-              : undefined;
-
-          // 4. Create LLM client
-          const llmConfig = loadLLMConfig();
-          const client = createLLMClient(llmConfig);
-
-          // 5. Run agent loop
-          const outputDir = path.resolve(resolvedReportPath);
+          // 1. Resolve config: defaults < file < env < CLI flags
+          const { config } = await resolveAdHocConfig({
+            configPath: opts.config,
+            environment: opts.env,
+            overrides: toOverrides(opts),
+          });
+          reportPath = config.reportPath;
+
+          // 2. Credentials from the top-level auth block
+          const roleAuth = resolveRole(config.auth, undefined, {});
+          const auth = authLoopConfig(
+            roleAuth,
+            url,
+            authStorageStateSchema.parse(config.auth?.storageState ?? {}),
+            undefined,
+            opts.refreshAuth ? startedAt : undefined,
+          );
+          const variables = {
+            ...templateVariables([prompt, roleAuth.loginPrompt]),
+            ...(roleAuth.totp !== undefined ? { totp: totpVariable(roleAuth.totp) } : {}),
+          };
+
+          // 3. Create LLM client
+          const client = createClientFromConfig(config);
+
+          // 4. Run agent loop
+          const outputDir = path.resolve(config.reportPath);
           const loopConfig = {
             url,
             prompt,
-            headless,
+            headless: config.headless,
             outputDir,
-            maxSteps,
-            totalTimeout: timeoutSec * 1000,
-            ...(cookies !== undefined ? { cookies } : {}),
-            ...(loginPrompt !== undefined ? { loginPrompt } : {}),
+            maxSteps: config.maxSteps,
+            totalTimeout: config.timeout * 1000,
+            pricing: config.pricing,
+            budget: perTestBudget(config.budget),
+            environment: opts.env,
+            variables,
+            ...auth,
           };
           const { summary, exitCode } = opts.v2
             ? await runAgentLoopV2(client, loopConfig)
             : await runAgentLoop(client, loopConfig);
 
-          // 6. Write markdown report
-          const markdown = generateMarkdown(summary);
-          await writeFile(
-            path.join(outputDir, 'report.md'),
-            markdown,
-            'utf-8',
-          );
+          // 5. Write markdown + HTML reports
+          await writeReports(outputDir, summary);
 
-          // 7. JSON to stdout if --json
+          // 6. JSON to stdout if --json
           if (opts.json) {
             const json = generateJSON(summary, exitCode);
             process.stdout.write(serializeJSON(json) + '\n');
           }
 
+          // 7. JUnit XML if --junit
+          if (opts.junit !== undefined) {
+            await writeJUnit(
+              opts.junit,
+              [{ name: 'promptqa test', exitCode, durationMs: summary.durationMs, summary }],
+              opts.junitUncertain,
+            );
+          }
+
           // 8. Summary to stderr always
           printSummary(summary);
 
           // 9. Exit code
           process.exitCode = exitCode;
         } catch (err) {
-          const message =
-            err instanceof Error ? err.message : String(err);
-          const stack =
-            err instanceof Error ? err.stack ?? '' : '';
+          // Error text can quote a typed secret
+          const message = redact(
+            err instanceof Error ? err.message : String(err),
+          );
+          const stack = redact(
+            err instanceof Error ? err.stack ?? '' : '',
+          );
           process.stderr.write(`Error: ${message}\n`);
 
           // Always produce artifacts so the user never sees "no such file"
@@ -224,6 +460,14 @@ export function registerTestCommand(program: Command): void {
             // Last resort — can't write artifacts
           }
 
+          if (opts.junit !== undefined) {
+            await writeJUnit(
+              opts.junit,
+              [{ name: 'promptqa test', exitCode: 4, durationMs: Date.now() - startedAt, error: message }],
+              'skipped',
+            ).catch(() => {});
+          }
+
           process.exitCode = 4;
         }
       },
@@ -233,42 +477,36 @@ export function registerTestCommand(program: Command): void {
 // ── Run command (config-driven multi-test) ──────────────────
 
 export function registerRunCommand(program: Command): void {
-  program
+  const command = program
     .command('run')
     .description('Run tests defined in a .promptqa.yaml config file')
-    .option(
-      '--config <path>',
-      'Path to config file',
-      '.promptqa.yaml',
-    )
     .option('--test <name>', 'Run a single test by name')
-    .option('--json', 'Output JSON to stdout')
-    .option('--report-path <dir>', 'Custom artifact directory')
-    .option('--max-steps <n>', 'Override max steps')
-    .option('--headless', 'Run browser headless')
-    .option('--timeout <seconds>', 'Total run timeout in seconds')
-    .option('--cookie <string>', 'Pre-authenticated cookie string')
-    .option(
-      '--login-prompt <prompt>',
-      'Login prompt to execute before test',
-    )
+    .option('--json', 'Output JSON to stdout');
+
+  addSettingOptions(command, { workers: true })
+    .option('--refresh-auth', 'Log in again even if a saved login session is still valid')
     .option('--v2', 'Use V2 observe-decide-act agent loop')
+    .option('--junit <file>', 'Write a JUnit XML report to <file>')
+    .addOption(junitUncertainOption())
     .action(
-      async (opts: {
-        config: string;
+      async (opts: SettingFlags & {
         test?: string;
+        junit?: string;
+        junitUncertain: JUnitUncertainMode;
         json?: true;
-        reportPath?: string;
-        maxSteps?: string;
-        headless?: true;
-        timeout?: string;
-        cookie?: string;
-        loginPrompt?: string;
+        refreshAuth?: true;
         v2?: true;
       }) => {
-        let config: ValidatedFileConfig;
+        const invokedAt = Date.now();
+        let config: FileConfig;
+        let allTests: TestCase[];
         try {
-          config = await loadValidatedConfig(opts.config);
+          ({ config } = await resolveFileConfig({
+            configPath: opts.config,
+            environment: opts.env,
+            overrides: toOverrides(opts),
+          }));
+          allTests = expandTests(config.tests);
         } catch (err) {
           const message =
             err instanceof Error ? err.message : String(err);
@@ -277,11 +515,12 @@ export function registerRunCommand(program: Command): void {
           return;
         }
 
-        // Filter to single test if --test specified
+        // Filter to one test if --test specified — a parameterized
+        // entry's name selects all of its combinations
         const tests =
           opts.test !== undefined
-            ? config.tests.filter((t) => t.name === opts.test)
-            : config.tests;
+            ? allTests.filter((t) => t.name === opts.test || t.baseName === opts.test)
+            : allTests;
 
         if (tests.length === 0) {
           process.stderr.write(
@@ -293,64 +532,77 @@ export function registerRunCommand(program: Command): void {
           return;
         }
 
-        // Merge: CLI flags override config values
-        const headless = opts.headless ?? config.headless;
-        const maxSteps =
-          opts.maxSteps !== undefined
-            ? Number(opts.maxSteps)
-            : config.maxSteps;
-        const timeoutSec =
-          opts.timeout !== undefined
-            ? Number(opts.timeout)
-            : config.timeout;
-        const cookieString = opts.cookie ?? config.auth?.cookie;
-        const loginPrompt = opts.loginPrompt ?? config.auth?.loginPrompt;
-
-        // Build LLM client — config provider/model override env
-        const envConfig = loadLLMConfig();
-        const llmConfig: LLMConfig = {
-          provider: config.provider ?? envConfig.provider,
-          apiKey: envConfig.apiKey,
-          model: config.model ?? envConfig.model,
-        };
-        const client = createLLMClient(llmConfig);
+        const headless = config.headless;
+        const authStorage = authStorageStateSchema.parse(config.auth?.storageState ?? {});
+        const client = createClientFromConfig(config);
+        const workers = Math.min(tests.length, config.workers);
 
-        let worstExitCode = 0;
+        // Per-test limits, plus one tracker for the whole suite so
+        // `budget.suite` caps the sum across tests and workers
+        const budget = perTestBudget(config.budget);
+        const suiteUsage = config.budget?.suite !== undefined
+          ? createUsageTracker(config.pricing, { limits: config.budget.suite, scope: 'suite' })
+          : undefined;
 
-        for (const test of tests) {
+        // Parallel runs share one Chromium — each test gets its own
+        // context — and tag their log lines with the test name.
+        let browser: Browser | undefined;
+
+        const runTest = async (test: TestCase): Promise<JUnitTestCase> => {
+          const testStartedAt = Date.now();
           const testUrl = test.url ?? config.baseUrl;
-          const reportDir = opts.reportPath ?? '.artifacts';
-          const outputDir = path.resolve(reportDir, test.name);
+          const outputDir = path.resolve(config.reportPath, safeDirName(test.name));
+          const roleAuth = resolveRole(config.auth, test.role, opts);
+          const auth = authLoopConfig(
+            roleAuth,
+            testUrl,
+            authStorage,
+            test.role,
+            opts.refreshAuth ? invokedAt : undefined,
+          );
 
-          const cookies =
-            cookieString !== undefined
-              ? parseCookies(cookieString, testUrl)
-              : undefined;
+          // Suite budget already spent — don't even open the browser
+          const suiteStop = suiteUsage?.checkBudget();
+          if (suiteStop) {
+            log.plain(`\nSkipping test ${test.name}: ${suiteStop.message}`);
+            return {
+              name: test.name,
+              exitCode: suiteStop.exitCode,
+              durationMs: 0,
+              error: suiteStop.message,
+            };
+          }
 
-          process.stderr.write(`\nRunning test: ${test.name}\n`);
+          log.plain(`\nRunning test: ${test.name}`);
 
           try {
+            const variables = {
+              ...templateVariables([test.prompt, roleAuth.loginPrompt]),
+              ...(roleAuth.totp !== undefined ? { totp: totpVariable(roleAuth.totp) } : {}),
+            };
             const loopConfig = {
               url: testUrl,
               prompt: test.prompt,
               headless,
               outputDir,
-              maxSteps,
-              totalTimeout: timeoutSec * 1000,
-              ...(cookies !== undefined ? { cookies } : {}),
-              ...(loginPrompt !== undefined ? { loginPrompt } : {}),
+              maxSteps: config.maxSteps,
+              totalTimeout: config.timeout * 1000,
+              browser,
+              pricing: config.pricing,
+              budget,
+              suiteUsage,
+              environment: opts.env,
+              role: test.role,
+              parameters: test.parameters,
+              variables,
+              ...auth,
             };
             const { summary, exitCode } = opts.v2
               ? await runAgentLoopV2(client, loopConfig)
               : await runAgentLoop(client, loopConfig);
 
-            // Write markdown report
-            const markdown = generateMarkdown(summary);
-            await writeFile(
-              path.join(outputDir, 'report.md'),
-              markdown,
-              'utf-8',
-            );
+            // Write markdown + HTML reports
+            await writeReports(outputDir, summary);
 
             // JSON to stdout if --json
             if (opts.json) {
@@ -360,15 +612,20 @@ export function registerRunCommand(program: Command): void {
 
             printSummary(summary);
 
-            if (exitCode > worstExitCode) {
-              worstExitCode = exitCode;
-            }
+            return {
+              name: test.name,
+              exitCode,
+              durationMs: summary.durationMs,
+              summary,
+            };
           } catch (err) {
-            const message =
-              err instanceof Error ? err.message : String(err);
-            const stack =
-              err instanceof Error ? err.stack ?? '' : '';
-            process.stderr.write(`Error [${test.name}]: ${message}\n`);
+            const message = redact(
+              err instanceof Error ? err.message : String(err),
+            );
+            const stack = redact(
+              err instanceof Error ? err.stack ?? '' : '',
+            );
+            log.plain(`Error [${test.name}]: ${message}`);
 
             // Always produce artifacts so the user never sees "no such file"
             try {
@@ -391,11 +648,212 @@ export function registerRunCommand(program: Command): void {
               // Last resort — can't write artifacts
             }
 
-            worstExitCode = 4;
+            return {
+              name: test.name,
+              exitCode: 4,
+              durationMs: Date.now() - testStartedAt,
+              error: message,
+            };
+          }
+        };
+
+        const outcomes: JUnitTestCase[] = [];
+        let exitCodes: number[];
+        try {
+          if (workers > 1) {
+            process.stderr.write(
+              `Running ${String(tests.length)} tests with ${String(workers)} workers\n`,
+            );
+            browser = await launchBrowser(headless);
+          }
+
+          // Let one test per role log in and save its session before
+          // the others start, instead of every worker logging in at once
+          let pending = tests;
+          if (workers > 1 && authStorage.enabled) {
+            const roles = new Set<string | undefined>();
+            const primers = tests.filter((test) => {
+              const logsIn = resolveRole(config.auth, test.role, opts).loginPrompt !== undefined;
+              if (!logsIn || roles.has(test.role)) return false;
+              roles.add(test.role);
+              return true;
+            });
+            outcomes.push(
+              ...(await runWithWorkers(primers, workers, (test) =>
+                log.withPrefix(test.name, () => runTest(test)),
+              )),
+            );
+            pending = tests.filter((test) => !primers.includes(test));
           }
+
+          outcomes.push(
+            ...(await runWithWorkers(pending, workers, (test) =>
+              workers > 1
+                ? log.withPrefix(test.name, () => runTest(test))
+                : runTest(test),
+            )),
+          );
+          exitCodes = outcomes.map((o) => o.exitCode);
+        } catch (err) {
+          const message =
+            err instanceof Error ? err.message : String(err);
+          process.stderr.write(`Error: ${message}\n`);
+          exitCodes = [4];
+        } finally {
+          await browser?.close();
+        }
+
+        if (tests.length > 1) {
+          printSuiteSummary(tests, outcomes);
         }
 
-        process.exitCode = worstExitCode;
+        if (opts.junit !== undefined) {
+          try {
+            await writeJUnit(
+              opts.junit,
+              outcomes,
+              opts.junitUncertain,
+            );
+          } catch (err) {
+            const message =
+              err instanceof Error ? err.message : String(err);
+            process.stderr.write(`JUnit error: ${message}\n`);
+            exitCodes.push(4);
+          }
+        }
+
+        // Worst exit code wins
+        process.exitCode = Math.max(0, ...exitCodes);
+      },
+    );
+}
+
+// ── Replay command (recorded plan, no planner) ──────────────
+
+export function registerReplayCommand(program: Command): void {
+  const command = program
+    .command('replay')
+    .description('Replay a recorded plan.json without calling the planner')
+    .argument('<plan>', 'Path to a plan.json written by a previous run')
+    .option('--json', 'Output JSON to stdout');
+
+  addSettingOptions(command, { workers: false })
+    .option('--role <name>', 'Authenticate as this entry of `auth.roles`')
+    .option('--refresh-auth', 'Log in again even if a saved login session is still valid')
+    .option('--no-fallback', 'Never call the LLM, even when a replayed step fails')
+    .action(
+      async (
+        planPath: string,
+        opts: SettingFlags & {
+          json?: true;
+          role?: string;
+          refreshAuth?: true;
+          fallback: boolean;
+        },
+      ) => {
+        // Replaced once the config resolves, so errors after that land
+        // in the configured directory
+        let outputDir = path.resolve(opts.reportPath ?? path.join('.artifacts', 'replay'));
+        const startedAt = Date.now();
+
+        try {
+          // Same layers as `test`: defaults < file < env < CLI flags
+          const { config } = await resolveAdHocConfig({
+            configPath: opts.config,
+            environment: opts.env,
+            overrides: toOverrides(opts),
+          });
+          outputDir = path.resolve(
+            opts.reportPath ?? path.join(config.reportPath, 'replay'),
+          );
+
+          const plan = await loadPlanFile(planPath);
+
+          if (opts.role !== undefined && config.auth?.roles?.[opts.role] === undefined) {
+            throw new Error(`No auth role named "${opts.role}" in config`);
+          }
+          const roleAuth = resolveRole(config.auth, opts.role, opts);
+          const auth = authLoopConfig(
+            roleAuth,
+            plan.url,
+            authStorageStateSchema.parse(config.auth?.storageState ?? {}),
+            opts.role,
+            opts.refreshAuth ? startedAt : undefined,
+          );
+          const variables = {
+            ...templateVariables([
+              plan.prompt,
+              ...[...(plan.loginSteps ?? []), ...plan.steps].map((step) =>
+                'value' in step ? step.value : undefined,
+              ),
+            ]),
+            ...(roleAuth.totp !== undefined ? { totp: totpVariable(roleAuth.totp) } : {}),
+          };
+
+          // The LLM is only needed to heal a failing step. A missing
+          // API key should not block a fully deterministic replay.
+          let fallbackClient: LLMClient | undefined;
+          if (opts.fallback) {
+            try {
+              fallbackClient = createClientFromConfig(config);
+            } catch (err) {
+              const message = err instanceof Error ? err.message : String(err);
+              log.warn(`LLM fallback disabled: ${message}`);
+            }
+          }
+
+          const { summary, exitCode } = await runReplay({
+            plan,
+            headless: config.headless,
+            outputDir,
+            totalTimeout: config.timeout * 1000,
+            cookies: auth.cookies,
+            httpAuth: auth.httpAuth,
+            authState: auth.authState,
+            loginCheck: auth.loginCheck,
+            fallbackClient,
+            pricing: config.pricing,
+            environment: opts.env,
+            role: opts.role,
+            variables,
+          });
+
+          await writeReports(outputDir, summary);
+
+          if (opts.json) {
+            const json = generateJSON(summary, exitCode);
+            process.stdout.write(serializeJSON(json) + '\n');
+          }
+
+          printSummary(summary);
+
+          process.exitCode = exitCode;
+        } catch (err) {
+          const message = redact(
+            err instanceof Error ? err.message : String(err),
+          );
+          const stack = redact(
+            err instanceof Error ? err.stack ?? '' : '',
+          );
+          process.stderr.write(`Error: ${message}\n`);
+
+          try {
+            await mkdir(outputDir, { recursive: true });
+            await writeFile(
+              path.join(outputDir, 'error.json'),
+              JSON.stringify(
+                { error: message, stack, timestamp: new Date().toISOString() },
+                null,
+                2,
+              ) + '\n',
+              'utf-8',
+            );
+          } catch {
+            // Last resort — can't write artifacts
+          }
+
+          process.exitCode = 4;
+        }
       },
     );
 }
@@ -0,0 +1,104 @@
+import { InvalidArgumentError, Option } from 'commander';
+import type { Command } from 'commander';
+
+import type { ConfigOverrides } from '../config/loader.js';
+
+/**
+ * Flags shared by every command that resolves the config. None has a
+ * commander default — an absent flag leaves the setting to the
+ * file, the environment or the schema default.
+ */
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface SettingFlags {
+  config: string;
+  env?: string;
+  headless?: true;
+  maxSteps?: number;
+  timeout?: number;
+  workers?: number;
+  reportPath?: string;
+  cookie?: string;
+  loginPrompt?: string;
+  maxTokens?: number;
+  maxLlmCalls?: number;
+  maxCost?: number;
+}
+
+// ── Public API ──────────────────────────────────────────────
+
+/** Add `--config`, `--env` and the setting overrides to `command`. */
+export function addSettingOptions(
+  command: Command,
+  options: { workers: boolean },
+): Command {
+  command
+    .option('--config <path>', 'Path to config file', '.promptqa.yaml')
+    .addOption(envOption())
+    .option('--report-path <dir>', 'Custom artifact directory')
+    .addOption(new Option('--max-steps <n>', 'Override max steps').argParser(parsePositiveInteger))
+    .option('--headless', 'Run browser headless')
+    .addOption(
+      new Option('--timeout <seconds>', 'Total run timeout in seconds').argParser(parsePositiveNumber),
+    )
+    .option('--cookie <string>', 'Pre-authenticated cookie string')
+    .option('--login-prompt <prompt>', 'Login prompt to execute before test');
+
+  if (options.workers) {
+    command.addOption(
+      new Option('--workers <n>', 'Number of tests to run in parallel').argParser(parsePositiveInteger),
+    );
+  }
+
+  return command
+    .addOption(budgetOption('--max-tokens <n>', 'Stop each test after this many LLM tokens'))
+    .addOption(budgetOption('--max-llm-calls <n>', 'Stop each test after this many LLM calls'))
+    .addOption(budgetOption('--max-cost <usd>', 'Stop each test once its estimated LLM cost reaches this'));
+}
+
+/** The config layer the given flags make up. */
+export function toOverrides(flags: SettingFlags): ConfigOverrides {
+  return {
+    headless: flags.headless,
+    maxSteps: flags.maxSteps,
+    timeout: flags.timeout,
+    workers: flags.workers,
+    reportPath: flags.reportPath,
+    cookie: flags.cookie,
+    loginPrompt: flags.loginPrompt,
+    maxTokens: flags.maxTokens,
+    maxLlmCalls: flags.maxLlmCalls,
+    maxCostUsd: flags.maxCost,
+  };
+}
+
+// ── Options ─────────────────────────────────────────────────
+
+/** `--env <name>`, falling back to PROMPTQA_ENV. */
+function envOption(): Option {
+  return new Option(
+    '--env <name>',
+    'Merge this entry of `environments` onto the config',
+  ).env('PROMPTQA_ENV');
+}
+
+function budgetOption(flags: string, description: string): Option {
+  return new Option(flags, description).argParser(parsePositiveNumber);
+}
+
+function parsePositiveNumber(value: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new InvalidArgumentError('Expected a positive number.');
+  }
+  return n;
+}
+
+function parsePositiveInteger(value: string): number {
+  const n = parsePositiveNumber(value);
+  if (!Number.isInteger(n)) {
+    throw new InvalidArgumentError('Expected a positive whole number.');
+  }
+  return n;
+}
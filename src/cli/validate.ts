@@ -0,0 +1,96 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { Option } from 'commander';
+import type { Command } from 'commander';
+
+import { validateConfigFile } from '../config/validate.js';
+import type { ConfigIssue } from '../config/loader.js';
+import { configJsonSchema } from '../schema/jsonSchema.js';
+
+// ── Output ───────────────────────────────────────────────────
+
+/** `file:line:col: error: path: message` — the format editors and CI link to. */
+function formatIssue(configPath: string, severity: 'error' | 'warning', issue: ConfigIssue): string {
+  const where = issue.line !== undefined
+    ? `${configPath}:${String(issue.line)}:${String(issue.column ?? 1)}`
+    : configPath;
+  const setting = issue.path.length > 0 ? `${issue.path}: ` : '';
+  return `${where}: ${severity}: ${setting}${issue.message}`;
+}
+
+async function writeSchema(target: string | true): Promise<void> {
+  const json = JSON.stringify(configJsonSchema(), null, 2) + '\n';
+  if (target === true) {
+    process.stdout.write(json);
+    return;
+  }
+
+  const outPath = path.resolve(target);
+  await mkdir(path.dirname(outPath), { recursive: true });
+  await writeFile(outPath, json, 'utf-8');
+  process.stderr.write(
+    `Wrote ${outPath}\n` +
+      'For completion in VS Code (YAML extension), start .promptqa.yaml with:\n' +
+      `  # yaml-language-server: $schema=${path.relative(process.cwd(), outPath) || target}\n`,
+  );
+}
+
+// ── Command registration ─────────────────────────────────────
+
+export function registerValidateCommand(program: Command): void {
+  program
+    .command('validate')
+    .description('Check a config file without running any tests')
+    .option('--config <path>', 'Path to config file', '.promptqa.yaml')
+    .addOption(
+      new Option('--env <name>', 'Check only this entry of `environments`').env('PROMPTQA_ENV'),
+    )
+    .option(
+      '--schema [file]',
+      'Write the config JSON Schema to <file> (stdout if omitted) instead of validating',
+    )
+    .action(
+      async (opts: {
+        config: string;
+        env?: string;
+        schema?: string | true;
+      }) => {
+        try {
+          if (opts.schema !== undefined) {
+            await writeSchema(opts.schema);
+            return;
+          }
+
+          const result = await validateConfigFile(opts.config, { environment: opts.env });
+          for (const issue of result.errors) {
+            process.stderr.write(`${formatIssue(opts.config, 'error', issue)}\n`);
+          }
+          for (const issue of result.warnings) {
+            process.stderr.write(`${formatIssue(opts.config, 'warning', issue)}\n`);
+          }
+
+          const checked = result.environments.length > 0
+            ? ` (base config and ${result.environments.map((name) => `--env ${name}`).join(', ')})`
+            : '';
+          if (result.errors.length > 0) {
+            process.stderr.write(
+              `\n${opts.config}: ${String(result.errors.length)} error(s), ${String(result.warnings.length)} warning(s)${checked}\n`,
+            );
+            process.exitCode = 4;
+          } else {
+            process.stderr.write(
+              `${opts.config} is valid${checked}` +
+                (result.warnings.length > 0 ? ` — ${String(result.warnings.length)} warning(s)` : '') +
+                '\n',
+            );
+          }
+        } catch (err) {
+          const message =
+            err instanceof Error ? err.message : String(err);
+          process.stderr.write(`Validate error: ${message}\n`);
+          process.exitCode = 4;
+        }
+      },
+    );
+}
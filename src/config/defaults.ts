@@ -8,12 +8,17 @@ export const TIMEOUTS = {
   ACTION_TIMEOUT: 8_000,
   TOTAL_RUN_TIMEOUT: 180_000,
   RETRY_WAIT: 2_000,
+  /** Pause after each scroll so lazy-loaded content can render. */
+  SCROLL_SETTLE: 600,
 } as const;
 
 export const LIMITS = {
   MAX_STEPS: 12,
   MAX_STEP_RETRIES: 1,
   MAX_LLM_RETRIES: 1,
+  MAX_CONSECUTIVE_LLM_ERRORS: 3,
+  /** Scrolls a `scroll ... until` step may take before giving up. */
+  MAX_SCROLLS: 30,
 } as const;
 
 export const TOKEN_GUARDS = {
@@ -21,3 +26,19 @@ export const TOKEN_GUARDS = {
   MAX_NETWORK_ERRORS: 10,
   MAX_VISIBLE_TEXT_CHARS: 8_000,
 } as const;
+
+/**
+ * Estimated USD per million tokens, matched by longest model-name
+ * prefix. Override or extend via `pricing` in .promptqa.yaml.
+ */
+export const DEFAULT_PRICING = {
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  'gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10 },
+  'gpt-4.1-mini': { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  'gpt-4.1': { inputPerMTok: 2, outputPerMTok: 8 },
+  'mock': { inputPerMTok: 0, outputPerMTok: 0 },
+} as const;
@@ -1,8 +1,33 @@
 /**
  * Configuration module.
- * Loads and validates runtime config from env, CLI flags, and config files.
+ * Resolves runtime config from defaults, config files, env and CLI flags,
+ * recording where each setting came from.
  * Zod-validated. No defaults leak — everything explicit.
  */
 
-export { TIMEOUTS, LIMITS, TOKEN_GUARDS } from './defaults.js';
-export { loadConfigFile } from './loader.js';
+export { TIMEOUTS, LIMITS, TOKEN_GUARDS, DEFAULT_PRICING } from './defaults.js';
+export {
+  loadConfigFile,
+  readConfigFile,
+  resolveFileConfig,
+  resolveAdHocConfig,
+  sourceOf,
+  describeSource,
+  formatConfigIssue,
+  ConfigError,
+} from './loader.js';
+export type {
+  LoadConfigOptions,
+  ConfigFile,
+  ConfigIssue,
+  ConfigOverrides,
+  ConfigSource,
+  ResolveConfigOptions,
+  ResolvedConfig,
+} from './loader.js';
+export { expandTests } from './matrix.js';
+export type { TestCase } from './matrix.js';
+export { suggestTests, renderConfigFile, renderEnvExample } from './scaffold.js';
+export type { InitAnswers, InitAuthStyle, InitProvider, StarterTest } from './scaffold.js';
+export { validateConfigFile } from './validate.js';
+export type { ValidationResult, ValidateOptions } from './validate.js';
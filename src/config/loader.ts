@@ -1,22 +1,558 @@
 import { readFile } from 'node:fs/promises';
 
-import { parse as parseYaml } from 'yaml';
+import { isMap, isSeq, isScalar, LineCounter, parseDocument } from 'yaml';
+import type { Node as YamlNode } from 'yaml';
+import { z } from 'zod';
 
-import { fileConfigSchema } from '../schema/config.js';
-import type { FileConfig } from '../schema/config.js';
+import { adHocConfigSchema, environmentsSchema, fileConfigSchema } from '../schema/config.js';
+import type { AdHocConfig, FileConfig } from '../schema/config.js';
+
+/**
+ * Config resolution: defaults < config file < `environments` entry <
+ * environment variables < CLI flags. Every effective setting keeps a
+ * record of the layer it came from.
+ *
+ * The LLM variables (LLM_PROVIDER, the model variable, LLM_BASE_URL,
+ * LLM_VISION) are the exception: they sit just above the defaults, so
+ * a provider or model named in the config wins over the shell's.
+ */
+
+// ── Public types ─────────────────────────────────────────────
+
+export type ConfigSource =
+  | { kind: 'default' }
+  | { kind: 'file'; path: string }
+  | { kind: 'environment'; name: string }
+  | { kind: 'env'; variable: string }
+  | { kind: 'flag'; flag: string };
+
+/** Setting values given on the command line. */
+export interface ConfigOverrides {
+  headless?: boolean | undefined;
+  maxSteps?: number | undefined;
+  timeout?: number | undefined;
+  workers?: number | undefined;
+  reportPath?: string | undefined;
+  cookie?: string | undefined;
+  loginPrompt?: string | undefined;
+  maxTokens?: number | undefined;
+  maxLlmCalls?: number | undefined;
+  maxCostUsd?: number | undefined;
+}
+
+export interface ResolveConfigOptions {
+  configPath: string;
+  /** Entry of `environments` to merge onto the base config. */
+  environment?: string | undefined;
+  overrides?: ConfigOverrides | undefined;
+  /** Variables to read settings from; defaults to process.env. */
+  env?: NodeJS.ProcessEnv | undefined;
+}
+
+export interface ResolvedConfig<T> {
+  config: T;
+  /** Dotted setting path → origin. Settings not listed are defaults. */
+  sources: ReadonlyMap<string, ConfigSource>;
+  /** Absent when `promptqa test` ran without a config file. */
+  configPath?: string | undefined;
+  environment?: string | undefined;
+}
+
+/** One problem with the config, located in the file when possible. */
+export interface ConfigIssue {
+  /** Setting path, e.g. `tests[0].role`; empty for file-level problems. */
+  path: string;
+  message: string;
+  /** 1-based position in the config file. */
+  line?: number | undefined;
+  column?: number | undefined;
+}
+
+/** A parsed config file that can map setting paths back to positions. */
+export interface ConfigFile {
+  data: unknown;
+  locate(path: readonly (string | number)[]): { line: number; column: number } | undefined;
+}
+
+export interface LoadConfigOptions {
+  /** Entry of `environments` to merge onto the base config. */
+  environment?: string | undefined;
+}
+
+// ── Error ────────────────────────────────────────────────────
+
+export class ConfigError extends Error {
+  readonly exitCode = 4;
+
+  constructor(
+    readonly configPath: string,
+    readonly issues: readonly ConfigIssue[],
+  ) {
+    const lines = issues.map((issue) => `  - ${formatConfigIssue(issue)}`);
+    super(`Invalid config ${configPath}:\n${lines.join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
 
 // ── Public API ──────────────────────────────────────────────
 
 /**
- * Load and validate a `.promptqa.yaml` (or JSON) config file.
+ * Resolve the config for `promptqa run`. The file is required and
+ * must define `baseUrl` and `tests`. Throws ConfigError on any
+ * invalid or unknown setting.
+ */
+export async function resolveFileConfig(
+  options: ResolveConfigOptions,
+): Promise<ResolvedConfig<FileConfig>> {
+  return resolveConfig(fileConfigSchema, options, false);
+}
+
+/**
+ * Resolve the config for `promptqa test`, which gets URL and prompt
+ * on the command line. A missing config file is not an error.
+ */
+export async function resolveAdHocConfig(
+  options: ResolveConfigOptions,
+): Promise<ResolvedConfig<AdHocConfig>> {
+  return resolveConfig(adHocConfigSchema, options, true);
+}
+
+/**
+ * Load and validate a `.promptqa.yaml` (or JSON) config file, without
+ * environment variables or CLI flags.
  * Throws a descriptive error if the file is missing or invalid.
  */
-export async function loadConfigFile(configPath: string): Promise<FileConfig> {
-  const raw = await readFile(configPath, 'utf-8');
+export async function loadConfigFile(
+  configPath: string,
+  options: LoadConfigOptions = {},
+): Promise<FileConfig> {
+  const resolved = await resolveFileConfig({
+    configPath,
+    environment: options.environment,
+    env: {},
+  });
+  return resolved.config;
+}
+
+// ── Resolution ───────────────────────────────────────────────
+
+interface Setting {
+  path: readonly string[];
+  value: unknown;
+  source: ConfigSource;
+}
+
+const FLAG_SETTINGS: Record<keyof ConfigOverrides, { path: string[]; flag: string }> = {
+  headless: { path: ['headless'], flag: '--headless' },
+  maxSteps: { path: ['maxSteps'], flag: '--max-steps' },
+  timeout: { path: ['timeout'], flag: '--timeout' },
+  workers: { path: ['workers'], flag: '--workers' },
+  reportPath: { path: ['reportPath'], flag: '--report-path' },
+  cookie: { path: ['auth', 'cookie'], flag: '--cookie' },
+  loginPrompt: { path: ['auth', 'loginPrompt'], flag: '--login-prompt' },
+  maxTokens: { path: ['budget', 'maxTokens'], flag: '--max-tokens' },
+  maxLlmCalls: { path: ['budget', 'maxLlmCalls'], flag: '--max-llm-calls' },
+  maxCostUsd: { path: ['budget', 'maxCostUsd'], flag: '--max-cost' },
+};
+
+interface EnvSetting {
+  variable: string;
+  path: string[];
+  boolean?: true;
+}
+
+const ENV_SETTINGS: readonly EnvSetting[] = [
+  { variable: 'PROMPTQA_HEADLESS', path: ['headless'], boolean: true },
+];
+
+/** Read beneath the config file — see the module comment. */
+const LLM_ENV_SETTINGS: readonly EnvSetting[] = [
+  { variable: 'LLM_PROVIDER', path: ['provider'] },
+  { variable: 'LLM_BASE_URL', path: ['llmBaseUrl'] },
+  { variable: 'LLM_VISION', path: ['llmVision'], boolean: true },
+];
+
+async function resolveConfig<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: ResolveConfigOptions,
+  optional: boolean,
+): Promise<ResolvedConfig<T>> {
+  const { configPath, environment } = options;
+  const file = await readConfigFile(configPath, optional);
+  const root = file?.data;
+  const found = file !== undefined;
+
+  if (found && root !== null && !isPlainObject(root)) {
+    throw new ConfigError(configPath, [
+      { path: '', message: 'the file must contain a mapping of settings', ...file.locate([]) },
+    ]);
+  }
+  const { environments, ...base } = isPlainObject(root) ? root : {};
+
+  const settings: Setting[] = leaves(base).map((leaf) => ({
+    ...leaf,
+    source: { kind: 'file', path: configPath },
+  }));
+
+  if (environment !== undefined) {
+    const available = environmentsSchema.safeParse(environments ?? {});
+    if (!available.success) {
+      throw new ConfigError(
+        configPath,
+        formatIssues(available.error, ['environments'], new Map(), schema, file),
+      );
+    }
+    const overrides = available.data[environment];
+    if (overrides === undefined) {
+      const names = Object.keys(available.data);
+      throw new ConfigError(configPath, [{
+        path: '',
+        message: `unknown environment "${environment}"` +
+          (names.length > 0 ? ` (available: ${names.join(', ')})` : ' — the config has no environments'),
+      }]);
+    }
+    settings.push(
+      ...leaves(overrides).map((leaf) => ({
+        ...leaf,
+        source: { kind: 'environment', name: environment } as const,
+      })),
+    );
+  }
+
+  const env = options.env ?? process.env;
+  const llmSettings = envSettings(LLM_ENV_SETTINGS, env);
+
+  // The model variable depends on the provider that wins; the
+  // cassette records through another provider and uses its model
+  const provider = [...llmSettings, ...settings]
+    .reverse()
+    .find((s) => s.path.join('.') === 'provider')?.value;
+  const modelProvider = provider === 'cassette'
+    ? env['LLM_CASSETTE_PROVIDER'] ?? 'anthropic'
+    : provider ?? 'anthropic';
+  const modelVariable = modelProvider === 'anthropic' ? 'PROMPTQA_MODEL' : 'LLM_MODEL';
+  const model = env[modelVariable];
+  if (model !== undefined && model !== '') {
+    llmSettings.push({ path: ['model'], value: model, source: { kind: 'env', variable: modelVariable } });
+  }
+
+  settings.unshift(...llmSettings);
+  settings.push(...envSettings(ENV_SETTINGS, env));
+
+  for (const [key, { path, flag }] of Object.entries(FLAG_SETTINGS)) {
+    const value = options.overrides?.[key as keyof ConfigOverrides];
+    if (value !== undefined) {
+      settings.push({ path, value, source: { kind: 'flag', flag } });
+    }
+  }
+
+  const raw: Record<string, unknown> = {};
+  const sources = new Map<string, ConfigSource>();
+  for (const setting of settings) {
+    setPath(raw, setting.path, setting.value);
+    const key = setting.path.join('.');
+    // A later object replaces everything an earlier layer set below it
+    for (const existing of [...sources.keys()]) {
+      if (existing.startsWith(`${key}.`)) sources.delete(existing);
+    }
+    sources.set(key, setting.source);
+  }
+
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError(configPath, formatIssues(parsed.error, [], sources, schema, file));
+  }
 
-  const parsed: unknown = configPath.endsWith('.json')
-    ? JSON.parse(raw)
-    : parseYaml(raw);
+  return {
+    config: parsed.data,
+    sources,
+    ...(found ? { configPath } : {}),
+    ...(environment !== undefined ? { environment } : {}),
+  };
+}
+
+function envSettings(
+  variables: readonly EnvSetting[],
+  env: NodeJS.ProcessEnv,
+): Setting[] {
+  const settings: Setting[] = [];
+  for (const { variable, path, boolean } of variables) {
+    const value = env[variable];
+    if (value !== undefined && value !== '') {
+      settings.push({ path, value: boolean ? parseBoolean(value) : value, source: { kind: 'env', variable } });
+    }
+  }
+  return settings;
+}
+
+/** Where a setting came from — its own entry or its nearest parent's. */
+export function sourceOf(
+  sources: ReadonlyMap<string, ConfigSource>,
+  path: readonly (string | number)[],
+): ConfigSource {
+  for (let length = path.length; length > 0; length--) {
+    const source = sources.get(path.slice(0, length).join('.'));
+    if (source) return source;
+  }
+  return { kind: 'default' };
+}
+
+export function describeSource(source: ConfigSource): string {
+  switch (source.kind) {
+    case 'default':
+      return 'default';
+    case 'file':
+      return `file ${source.path}`;
+    case 'environment':
+      return `environments.${source.name}`;
+    case 'env':
+      return `env ${source.variable}`;
+    case 'flag':
+      return `flag ${source.flag}`;
+  }
+}
+
+// ── File reading ─────────────────────────────────────────────
+
+/**
+ * Read and parse a YAML (or JSON) config file, keeping positions for
+ * error messages. Returns undefined for a missing file when
+ * `optional` is set.
+ */
+export async function readConfigFile(
+  configPath: string,
+  optional = false,
+): Promise<ConfigFile | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(configPath, 'utf-8');
+  } catch (err) {
+    if (optional && (err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ConfigError(configPath, [{ path: '', message: `cannot read file: ${message}` }]);
+  }
+
+  // JSON is valid YAML, so one parser gives positions for both
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(raw, { lineCounter, prettyErrors: false });
+  if (doc.errors.length > 0) {
+    throw new ConfigError(configPath, doc.errors.map((error) => {
+      const position = lineCounter.linePos(error.pos[0]);
+      return {
+        path: '',
+        message: `cannot parse file: ${error.message.split('\n')[0] ?? error.code}`,
+        line: position.line,
+        column: position.col,
+      };
+    }));
+  }
+
+  return {
+    data: doc.toJS(),
+    locate(path) {
+      const node = nodeAt(doc.contents, path);
+      if (node?.range == null) return undefined;
+      const position = lineCounter.linePos(node.range[0]);
+      return { line: position.line, column: position.col };
+    },
+  };
+}
+
+/**
+ * The deepest node along `path` — for a map entry its key, so missing
+ * settings point at their parent.
+ */
+function nodeAt(root: unknown, path: readonly (string | number)[]): YamlNode | undefined {
+  let node = root;
+  let found = isScalar(root) || isMap(root) || isSeq(root) ? root : undefined;
+  for (const part of path) {
+    if (isMap(node)) {
+      const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === String(part));
+      if (pair === undefined) break;
+      if (isScalar(pair.key)) found = pair.key;
+      node = pair.value;
+    } else if (isSeq(node) && typeof part === 'number') {
+      const item = node.items[part];
+      if (!isScalar(item) && !isMap(item) && !isSeq(item)) break;
+      found = item;
+      node = item;
+    } else {
+      break;
+    }
+  }
+  return found;
+}
+
+// ── Error formatting ─────────────────────────────────────────
+
+// Keys older versions read at the top level
+const MOVED_KEYS: Readonly<Record<string, string>> = {
+  cookie: 'auth.cookie',
+  loginPrompt: 'auth.loginPrompt',
+};
+
+/** `tests[0].role: Unknown auth role "x" (line 14, column 11)` */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const where = issue.line !== undefined
+    ? ` (line ${String(issue.line)}, column ${String(issue.column ?? 1)})`
+    : '';
+  return `${issue.path.length > 0 ? `${issue.path}: ` : ''}${issue.message}${where}`;
+}
+
+function formatIssues(
+  error: z.ZodError,
+  prefix: readonly (string | number)[],
+  sources: ReadonlyMap<string, ConfigSource>,
+  schema: z.ZodTypeAny,
+  file: ConfigFile | undefined,
+): ConfigIssue[] {
+  const toIssue = (path: (string | number)[], message: string): ConfigIssue => {
+    const source = sourceOf(sources, path);
+    const inFile = source.kind !== 'env' && source.kind !== 'flag';
+    return {
+      path: formatPath(path),
+      message: `${message}${originOf(sources, path)}`,
+      ...(inFile ? file?.locate(filePathOf(source, path)) : undefined),
+    };
+  };
+
+  return error.issues.flatMap((issue) => {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      const known = knownKeys(schema, issue.path);
+      return issue.keys.map((key) => {
+        const path = [...prefix, ...issue.path, key];
+        const moved = path.length === 1 ? MOVED_KEYS[key] : undefined;
+        const hint = moved !== undefined
+          ? ` — moved to ${moved}`
+          : suggestionFor(key, known);
+        return toIssue(path, `unknown setting${hint}`);
+      });
+    }
+    return [toIssue([...prefix, ...issue.path], issue.message)];
+  });
+}
+
+/** Where a merged setting sits in the file — under its environment if it came from one. */
+function filePathOf(
+  source: ConfigSource,
+  path: readonly (string | number)[],
+): (string | number)[] {
+  return source.kind === 'environment' ? ['environments', source.name, ...path] : [...path];
+}
+
+/** Point at the variable or flag when the value did not come from the file. */
+function originOf(
+  sources: ReadonlyMap<string, ConfigSource>,
+  path: readonly (string | number)[],
+): string {
+  const source = sourceOf(sources, path);
+  return source.kind === 'file' || source.kind === 'default' ? '' : ` (from ${describeSource(source)})`;
+}
+
+function formatPath(path: readonly (string | number)[]): string {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((part, index) => (typeof part === 'number' ? `[${String(part)}]` : index === 0 ? part : `.${part}`))
+    .join('');
+}
+
+function suggestionFor(key: string, known: readonly string[]): string {
+  const lower = key.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Math.max(1, Math.floor(key.length / 3)) + 1;
+  for (const candidate of known) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== undefined ? ` — did you mean "${best}"?` : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+// ── Schema introspection ─────────────────────────────────────
+
+/** Keys the object schema at `path` accepts, for typo suggestions. */
+function knownKeys(schema: z.ZodTypeAny, path: readonly (string | number)[]): string[] {
+  let current: z.ZodTypeAny | undefined = unwrap(schema);
+  for (const part of path) {
+    if (current instanceof z.ZodObject) {
+      current = (current.shape as Record<string, z.ZodTypeAny>)[String(part)];
+    } else if (current instanceof z.ZodArray) {
+      current = current.element as z.ZodTypeAny;
+    } else if (current instanceof z.ZodRecord) {
+      current = current.valueSchema as z.ZodTypeAny;
+    } else {
+      return [];
+    }
+    if (current === undefined) return [];
+    current = unwrap(current);
+  }
+  return current instanceof z.ZodObject ? Object.keys(current.shape as object) : [];
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap() as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault() as z.ZodTypeAny);
+  return schema;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/** Flatten nested mappings into one entry per setting. Arrays stay whole. */
+function leaves(
+  value: Record<string, unknown>,
+  prefix: readonly string[] = [],
+): { path: string[]; value: unknown }[] {
+  return Object.entries(value).flatMap(([key, child]) => {
+    const path = [...prefix, key];
+    return isPlainObject(child) && Object.keys(child).length > 0
+      ? leaves(child, path)
+      : [{ path, value: child }];
+  });
+}
+
+function setPath(target: Record<string, unknown>, path: readonly string[], value: unknown): void {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    const next = node[key];
+    if (!isPlainObject(next)) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[path[path.length - 1]!] = value;
+}
+
+function parseBoolean(value: string): unknown {
+  const lower = value.toLowerCase();
+  if (['true', '1', 'yes'].includes(lower)) return true;
+  if (['false', '0', 'no'].includes(lower)) return false;
+  // Left as text so validation names the variable
+  return value;
+}
 
-  return fileConfigSchema.parse(parsed);
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
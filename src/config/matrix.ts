@@ -0,0 +1,105 @@
+import type { TestEntry } from '../schema/config.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+/** One runnable test — a config entry, or one of its parameter combinations. */
+export interface TestCase {
+  /** Unique name, e.g. `checkout [locale=de, user=guest]`. */
+  name: string;
+  /** Name of the config entry this case came from. */
+  baseName: string;
+  prompt: string;
+  url?: string | undefined;
+  role?: string | undefined;
+  /** Values substituted into prompt and url, if any. */
+  parameters?: Readonly<Record<string, string>> | undefined;
+}
+
+// ── Public API ──────────────────────────────────────────────
+
+const PARAM_PLACEHOLDER = /\$\{\{\s*params\.(\w+)\s*\}\}/g;
+
+/**
+ * Expand every entry with `parameters` and/or `matrix` into one test
+ * per combination: each parameter row times each matrix combination.
+ * Throws if a placeholder has no value, a substituted url is invalid,
+ * or two cases end up with the same name.
+ */
+export function expandTests(entries: readonly TestEntry[]): TestCase[] {
+  const cases = entries.flatMap(expandEntry);
+
+  const seen = new Set<string>();
+  for (const test of cases) {
+    if (seen.has(test.name)) {
+      throw new Error(`Duplicate test name "${test.name}"`);
+    }
+    seen.add(test.name);
+  }
+  return cases;
+}
+
+// ── Expansion ────────────────────────────────────────────────
+
+function expandEntry(entry: TestEntry): TestCase[] {
+  const base: TestCase = {
+    name: entry.name,
+    baseName: entry.name,
+    prompt: entry.prompt,
+    ...(entry.url !== undefined ? { url: entry.url } : {}),
+    ...(entry.role !== undefined ? { role: entry.role } : {}),
+  };
+
+  if (entry.parameters === undefined && entry.matrix === undefined) {
+    // Still fill in — a stray placeholder should fail loudly, not reach the LLM
+    return [withParameters(base, {}, false)];
+  }
+
+  const rows = entry.parameters ?? [{}];
+  const combinations = cartesian(entry.matrix ?? {});
+  return rows.flatMap((row) =>
+    combinations.map((combination) => withParameters(base, { ...row, ...combination }, true)),
+  );
+}
+
+function withParameters(
+  base: TestCase,
+  parameters: Record<string, string>,
+  expanded: boolean,
+): TestCase {
+  const fill = (text: string, field: string): string =>
+    text.replace(PARAM_PLACEHOLDER, (_match, name: string) => {
+      const value = parameters[name];
+      if (value === undefined) {
+        throw new Error(`Test "${base.name}": ${field} uses params.${name}, which has no value`);
+      }
+      return value;
+    });
+
+  const url = base.url !== undefined ? fill(base.url, 'url') : undefined;
+  if (url !== undefined && !URL.canParse(url)) {
+    throw new Error(`Test "${base.name}": url "${url}" is not a valid URL`);
+  }
+
+  const label = Object.entries(parameters)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+
+  return {
+    ...base,
+    name: expanded ? `${base.name} [${label}]` : base.name,
+    prompt: fill(base.prompt, 'prompt'),
+    ...(url !== undefined ? { url } : {}),
+    ...(expanded ? { parameters } : {}),
+  };
+}
+
+/** Every combination of one value per key, in key order. */
+function cartesian(matrix: Readonly<Record<string, readonly string[]>>): Record<string, string>[] {
+  let combinations: Record<string, string>[] = [{}];
+  for (const [name, values] of Object.entries(matrix)) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: value })),
+    );
+  }
+  return combinations;
+}
@@ -0,0 +1,229 @@
+import { stringify as stringifyYaml } from 'yaml';
+
+import { fileConfigSchema } from '../schema/config.js';
+import type { InteractiveElement, PageSnapshot } from '../schema/index.js';
+
+/**
+ * Starter files written by `promptqa init`. Pure text generation —
+ * prompting and the optional page scan live in the CLI.
+ */
+
+// ── Public types ─────────────────────────────────────────────
+
+export type InitProvider = 'anthropic' | 'openai' | 'local';
+
+/**
+ * How the app under test is logged into:
+ * - `login`: the agent fills the login form, credentials from .env
+ * - `cookie`: a session cookie is passed with `--cookie`
+ */
+export type InitAuthStyle = 'none' | 'login' | 'cookie';
+
+export interface InitAnswers {
+  baseUrl: string;
+  provider: InitProvider;
+  /** OpenAI-compatible server for the `local` provider. */
+  llmBaseUrl?: string | undefined;
+  auth: InitAuthStyle;
+}
+
+export interface StarterTest {
+  name: string;
+  prompt: string;
+}
+
+// ── Public API ──────────────────────────────────────────────
+
+const MAX_STARTER_TESTS = 4;
+
+/**
+ * Suggest starter tests from a scanned page: a smoke test, plus
+ * search, form and navigation tests for what the page offers.
+ * Without a snapshot only the smoke test is suggested.
+ */
+export function suggestTests(
+  snapshot: PageSnapshot | undefined,
+  auth: InitAuthStyle,
+): StarterTest[] {
+  if (snapshot === undefined) {
+    return [{ name: 'smoke', prompt: 'verify the home page loads and shows its main content' }];
+  }
+
+  const { elements } = snapshot;
+  const title = snapshot.title.trim();
+  const tests: StarterTest[] = [{
+    name: 'smoke',
+    prompt: title.length > 0
+      ? `verify the page titled "${title}" loads and shows its main content`
+      : 'verify the home page loads and shows its main content',
+  }];
+
+  if (elements.some(isSearchInput)) {
+    tests.push({
+      name: 'search',
+      prompt: 'search for a term the site should know about and verify matching results appear',
+    });
+  }
+
+  const hasPassword = elements.some((el) => el.tag === 'input' && el.type === 'password');
+  if (hasPassword && auth !== 'login') {
+    tests.push({
+      name: 'login-rejects-wrong-password',
+      prompt: 'try to log in with a made-up email and a wrong password and verify an error message is shown',
+    });
+  } else if (!hasPassword && elements.some(isFormField)) {
+    tests.push({
+      name: 'form-submit',
+      prompt: 'fill in the form with realistic values, submit it and verify a confirmation appears',
+    });
+  }
+
+  const origin = new URL(snapshot.url).origin;
+  const links = elements.filter((el) => isNavigationLink(el, snapshot.url, origin));
+  for (const link of links) {
+    if (tests.length >= MAX_STARTER_TESTS) break;
+    const text = link.text!.trim();
+    const name = `open-${slugify(text)}`;
+    if (tests.some((t) => t.name === name)) continue;
+    tests.push({
+      name,
+      prompt: `click the "${text}" link and verify the page that opens shows related content`,
+    });
+  }
+
+  return tests.slice(0, MAX_STARTER_TESTS);
+}
+
+/**
+ * The `.promptqa.yaml` text for the answers and tests. Validated
+ * against the config schema, so a broken scaffold fails here rather
+ * than on the first `promptqa run`.
+ */
+export function renderConfigFile(
+  answers: InitAnswers,
+  tests: readonly StarterTest[],
+): string {
+  const config = {
+    baseUrl: answers.baseUrl,
+    provider: answers.provider,
+    ...(answers.llmBaseUrl !== undefined ? { llmBaseUrl: answers.llmBaseUrl } : {}),
+    headless: false,
+    maxSteps: 12,
+    ...(answers.auth === 'login'
+      ? {
+        auth: {
+          loginPrompt:
+            'log in with ${{ env.PROMPTQA_USERNAME }} and password ${{ secrets.PROMPTQA_PASSWORD }}',
+        },
+      }
+      : {}),
+    tests: [...tests],
+  };
+  fileConfigSchema.parse(config);
+
+  const header = [
+    '# PromptQA config — see `promptqa config --print` for every effective setting.',
+    '# Run all tests with `promptqa run`, one with `promptqa run --test <name>`.',
+  ];
+  if (answers.auth === 'login') {
+    header.push('# Login credentials are read from PROMPTQA_USERNAME / PROMPTQA_PASSWORD (.env).');
+  }
+  if (answers.auth === 'cookie') {
+    header.push('# Pass the session cookie at run time: promptqa run --cookie "session=..."');
+  }
+
+  return `${header.join('\n')}\n\n${stringifyYaml(config, { lineWidth: 0 })}`;
+}
+
+/** A `.env.example` listing the variables the chosen provider reads. */
+export function renderEnvExample(answers: InitAnswers): string {
+  const sections: string[][] = [];
+
+  switch (answers.provider) {
+    case 'anthropic':
+      sections.push([
+        '# LLM provider (Anthropic)',
+        'ANTHROPIC_API_KEY=',
+        '# PROMPTQA_MODEL=claude-sonnet-4-5-20250929',
+      ]);
+      break;
+    case 'openai':
+      sections.push([
+        '# LLM provider (OpenAI)',
+        'OPENAI_API_KEY=',
+        '# LLM_MODEL=gpt-4o',
+      ]);
+      break;
+    case 'local':
+      sections.push([
+        '# LLM provider (self-hosted, OpenAI-compatible)',
+        'LLM_MODEL=',
+        '# LLM_API_KEY=',
+        '# LLM_VISION=true',
+      ]);
+      break;
+  }
+
+  sections.push([
+    '# Optional: Record/replay LLM calls (LLM_PROVIDER=cassette)',
+    '# LLM_CASSETTE=.promptqa/cassette.json',
+    '# LLM_CASSETTE_MODE=replay',
+    `# LLM_CASSETTE_PROVIDER=${answers.provider}`,
+  ]);
+
+  if (answers.auth === 'login') {
+    sections.push([
+      '# Login credentials used by auth.loginPrompt',
+      'PROMPTQA_USERNAME=',
+      'PROMPTQA_PASSWORD=',
+    ]);
+  }
+
+  sections.push([
+    '# Optional: Browser config',
+    '# PROMPTQA_HEADLESS=true',
+  ]);
+
+  return sections.map((lines) => lines.join('\n')).join('\n\n') + '\n';
+}
+
+// ── Element heuristics ───────────────────────────────────────
+
+function isSearchInput(el: InteractiveElement): boolean {
+  if (el.tag !== 'input') return false;
+  if (el.type === 'search') return true;
+  const hint = `${el.name ?? ''} ${el.placeholder ?? ''} ${el.text ?? ''}`.toLowerCase();
+  return /\b(search|suche|query|q)\b/.test(hint);
+}
+
+function isFormField(el: InteractiveElement): boolean {
+  if (el.disabled || el.readOnly) return false;
+  if (el.tag === 'textarea') return true;
+  return el.tag === 'input' && (el.type === 'email' || el.type === 'tel');
+}
+
+/** Same-origin links with readable text that lead to another page. */
+function isNavigationLink(el: InteractiveElement, pageUrl: string, origin: string): boolean {
+  if (el.tag !== 'a' || el.href === undefined || el.text === undefined) return false;
+  const text = el.text.trim();
+  if (text.length < 2 || text.length > 40) return false;
+  if (!URL.canParse(el.href, pageUrl)) return false;
+
+  const target = new URL(el.href, pageUrl);
+  const current = new URL(pageUrl);
+  return target.origin === origin &&
+    (target.protocol === 'http:' || target.protocol === 'https:') &&
+    target.pathname !== current.pathname;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 30)
+    .replace(/^-+|-+$/g, '');
+  return slug.length > 0 ? slug : 'page';
+}
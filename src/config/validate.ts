@@ -0,0 +1,202 @@
+import type { AuthRole, FileConfig } from '../schema/config.js';
+import { ConfigError, formatConfigIssue, readConfigFile, resolveFileConfig } from './loader.js';
+import type { ConfigFile, ConfigIssue } from './loader.js';
+import { expandTests } from './matrix.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface ValidationResult {
+  configPath: string;
+  /** Environments checked in addition to the base config. */
+  environments: string[];
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+export interface ValidateOptions {
+  /** Check only this environment instead of every entry. */
+  environment?: string | undefined;
+}
+
+// ── Public API ──────────────────────────────────────────────
+
+/**
+ * Check a config file the way `promptqa run` would read it — once
+ * as is and once per environment — then check that tests, roles and
+ * environments fit together. Environment variables and flags are
+ * ignored; only the file is validated.
+ */
+export async function validateConfigFile(
+  configPath: string,
+  options: ValidateOptions = {},
+): Promise<ValidationResult> {
+  const result: ValidationResult = { configPath, environments: [], errors: [], warnings: [] };
+
+  let file: ConfigFile | undefined;
+  try {
+    file = await readConfigFile(configPath);
+  } catch (err) {
+    result.errors.push(...issuesOf(err));
+    return result;
+  }
+  if (file === undefined) return result;
+
+  const environments = environmentNames(file.data);
+  result.environments = options.environment !== undefined ? [options.environment] : environments;
+
+  const errors = createIssueList();
+  const warnings = createIssueList();
+  const configs: FileConfig[] = [];
+
+  for (const environment of [undefined, ...result.environments]) {
+    const suffix = environment !== undefined ? ` (with --env ${environment})` : '';
+    try {
+      const { config } = await resolveFileConfig({ configPath, environment, env: {} });
+      configs.push(config);
+      errors.add(checkTests(config, file), suffix);
+    } catch (err) {
+      errors.add(issuesOf(err), suffix);
+    }
+  }
+
+  const [base] = configs;
+  if (base !== undefined) {
+    warnings.add(checkRoles(base, configs, file), '');
+  }
+  warnings.add(checkEnvironments(file), '');
+
+  result.errors = errors.issues;
+  result.warnings = warnings.issues;
+  return result;
+}
+
+// ── Consistency checks ───────────────────────────────────────
+
+/** Duplicate test names, and anything parameter expansion rejects. */
+function checkTests(config: FileConfig, file: ConfigFile): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const seen = new Set<string>();
+  config.tests.forEach((test, index) => {
+    if (seen.has(test.name)) {
+      issues.push(issueAt(file, ['tests', index, 'name'], `duplicate test name "${test.name}"`));
+    }
+    seen.add(test.name);
+  });
+  if (issues.length > 0) return issues;
+
+  try {
+    expandTests(config.tests);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    issues.push(issueAt(file, ['tests'], message));
+  }
+  return issues;
+}
+
+/** Roles no test uses, and auth blocks whose settings have no effect. */
+function checkRoles(
+  base: FileConfig,
+  configs: readonly FileConfig[],
+  file: ConfigFile,
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const auth = base.auth;
+  if (auth === undefined) return issues;
+
+  issues.push(...checkLoginSettings(auth, ['auth'], file));
+
+  const used = new Set(configs.flatMap((config) => config.tests.map((test) => test.role)));
+  for (const [name, role] of Object.entries(auth.roles ?? {})) {
+    const path = ['auth', 'roles', name];
+    if (!used.has(name)) {
+      issues.push(issueAt(file, path, `role "${name}" is not used by any test`));
+    }
+    if (!hasCredentials(role)) {
+      issues.push(issueAt(file, path, `role "${name}" has no credentials — its tests run logged out`));
+    }
+    issues.push(...checkLoginSettings(role, path, file));
+  }
+  return issues;
+}
+
+function checkLoginSettings(
+  role: AuthRole,
+  path: readonly string[],
+  file: ConfigFile,
+): ConfigIssue[] {
+  if (role.loginPrompt !== undefined) return [];
+  return (['successCheck', 'totp'] as const)
+    .filter((key) => role[key] !== undefined)
+    .map((key) => issueAt(file, [...path, key], `${key} has no effect without loginPrompt`));
+}
+
+function checkEnvironments(file: ConfigFile): ConfigIssue[] {
+  const environments = (file.data as Record<string, unknown> | null)?.['environments'];
+  if (typeof environments !== 'object' || environments === null) return [];
+
+  return Object.entries(environments)
+    .filter(([, overrides]) =>
+      overrides === null || (typeof overrides === 'object' && Object.keys(overrides).length === 0))
+    .map(([name]) => issueAt(file, ['environments', name], `environment "${name}" overrides nothing`));
+}
+
+function hasCredentials(role: AuthRole): boolean {
+  return role.cookie !== undefined ||
+    (role.cookies?.length ?? 0) > 0 ||
+    Object.keys(role.headers ?? {}).length > 0 ||
+    role.basic !== undefined ||
+    role.bearer !== undefined ||
+    role.loginPrompt !== undefined;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+interface IssueList {
+  readonly issues: ConfigIssue[];
+  add(issues: readonly ConfigIssue[], suffix: string): void;
+}
+
+/** Issues in report order, each reported once across all environments. */
+function createIssueList(): IssueList {
+  const issues: ConfigIssue[] = [];
+  const seen = new Set<string>();
+  return {
+    issues,
+    add(added, suffix) {
+      for (const issue of added) {
+        const key = formatConfigIssue(issue);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        // Base-config problems repeat under every environment; only new ones are labelled
+        issues.push(
+          suffix.length > 0 && !issue.message.includes('environments.')
+            ? { ...issue, message: `${issue.message}${suffix}` }
+            : issue,
+        );
+      }
+    },
+  };
+}
+
+function issueAt(file: ConfigFile, path: readonly (string | number)[], message: string): ConfigIssue {
+  return {
+    path: path
+      .map((part, index) => (typeof part === 'number' ? `[${String(part)}]` : index === 0 ? part : `.${part}`))
+      .join(''),
+    message,
+    ...file.locate(path),
+  };
+}
+
+function issuesOf(err: unknown): ConfigIssue[] {
+  if (err instanceof ConfigError) return [...err.issues];
+  return [{ path: '', message: err instanceof Error ? err.message : String(err) }];
+}
+
+function environmentNames(data: unknown): string[] {
+  if (typeof data !== 'object' || data === null) return [];
+  const environments = (data as Record<string, unknown>)['environments'];
+  return typeof environments === 'object' && environments !== null && !Array.isArray(environments)
+    ? Object.keys(environments)
+    : [];
+}
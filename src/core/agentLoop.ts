@@ -2,23 +2,44 @@ import { randomUUID } from 'node:crypto';
 import { writeFile, mkdir } from 'node:fs/promises';
 import path from 'node:path';
 
+import type { Browser } from 'playwright';
+
 import type { LLMClient } from '../llm/index.js';
+import {
+  createUsageTracker,
+  withUsageTracking,
+  BudgetExceededError,
+} from '../llm/usage.js';
+import type { UsageTracker } from '../llm/usage.js';
 import type {
   Step,
   StepExecutionResult,
   BugReport,
   RunSummary,
   EvaluationVerdict,
+  PriceTable,
+  BudgetLimits,
+  LoginOutcome,
+  LoginSuccessCheck,
 } from '../schema/index.js';
-import { computeSummaryVerdict } from '../schema/index.js';
+import { computeSummaryVerdict, isAssertionStep } from '../schema/index.js';
 import { TIMEOUTS, LIMITS } from '../config/defaults.js';
 import * as log from '../utils/logger.js';
-import type { CookieParam } from '../browser/runner.js';
+import { redact } from '../utils/redact.js';
+import type { CookieParam, HttpAuth } from '../browser/runner.js';
 import { launchSession } from '../browser/runner.js';
+import { withVariableHints } from '../browser/variables.js';
+import type { StepVariables } from '../browser/variables.js';
 import { prescanPage, prescanCurrentPage } from '../browser/prescan.js';
+import type { AuthStateOptions } from '../browser/authState.js';
+import { loadAuthState, saveAuthState } from '../browser/authState.js';
+import { checkLoginSuccess, LoginError } from '../browser/auth.js';
 import { generateJSON, serializeJSON } from '../report/reporter.js';
+import { stepsFromResults } from '../report/exporter.js';
 import { planSteps, PlannerError } from './planner.js';
 import { evaluateStep } from './evaluator.js';
+import { writePlanFile } from './planFile.js';
+import { budgetStopOutcome } from './budget.js';
 
 // ── Public types ─────────────────────────────────────────────
 
@@ -30,7 +51,29 @@ export interface AgentLoopConfig {
   maxSteps?: number | undefined;
   totalTimeout?: number | undefined;
   cookies?: readonly CookieParam[] | undefined;
+  /** Headers and basic credentials sent to the target origin. */
+  httpAuth?: HttpAuth | undefined;
   loginPrompt?: string | undefined;
+  /** Config environment the run was loaded with, shown in reports. */
+  environment?: string | undefined;
+  /** Auth role the login belongs to, shown in reports. */
+  role?: string | undefined;
+  /** Data-driven parameter values, shown in reports. */
+  parameters?: Readonly<Record<string, string>> | undefined;
+  /** `${{ name }}` values steps can type, e.g. a 2FA code. */
+  variables?: StepVariables | undefined;
+  /** How to verify the login; defaults to "no password field visible". */
+  loginCheck?: LoginSuccessCheck | undefined;
+  /** Persist the login's storage state and reuse it while valid. */
+  authState?: AuthStateOptions | undefined;
+  /** Shared browser for parallel runs — each run gets its own context. */
+  browser?: Browser | undefined;
+  /** Price table overrides for the usage cost estimate. */
+  pricing?: PriceTable | undefined;
+  /** Hard LLM limits for this run. */
+  budget?: BudgetLimits | undefined;
+  /** Suite-wide tracker whose limits this run also counts against. */
+  suiteUsage?: UsageTracker | undefined;
 }
 
 export interface AgentLoopResult {
@@ -42,6 +85,20 @@ export interface AgentLoopResult {
 
 type FailureKind = 'element_not_found' | 'action_no_effect' | 'hard_fail' | 'none';
 
+/**
+ * Steps that can succeed without changing the page text: navigation,
+ * waits, scrolls, hovers, and tab switches that land on a tab showing
+ * the same text. Retrying them would only run them twice.
+ */
+const NO_TEXT_CHANGE_EXPECTED = new Set<Step['type']>([
+  'goto',
+  'wait',
+  'scroll',
+  'hover',
+  'switch_tab',
+  'close_tab',
+]);
+
 function classifyFailure(
   result: StepExecutionResult,
   prevVisibleText: string,
@@ -69,9 +126,8 @@ function classifyFailure(
 
   // Step succeeded but nothing changed on an interactive step → retryable
   if (
-    result.step.type !== 'goto' &&
-    result.step.type !== 'wait' &&
-    result.step.type !== 'expect_text' &&
+    !NO_TEXT_CHANGE_EXPECTED.has(result.step.type) &&
+    !isAssertionStep(result.step) &&
     result.visibleText === prevVisibleText
   ) {
     return 'action_no_effect';
@@ -80,9 +136,28 @@ function classifyFailure(
   return 'none';
 }
 
+// ── Plan recording ──────────────────────────────────────────
+
+/**
+ * The planned steps with what execution learned: steps that passed
+ * carry the selector that matched (and any tab switch they caused).
+ * A failed step and the steps never reached stay as planned, so a
+ * replay still covers the whole test.
+ */
+function replayableSteps(
+  planned: readonly Step[],
+  results: readonly StepExecutionResult[],
+): Step[] {
+  const byIndex = new Map(results.map((r) => [r.stepIndex, r]));
+  return planned.flatMap((step, index) => {
+    const result = byIndex.get(index);
+    return result?.success ? stepsFromResults([result]) : [step];
+  });
+}
+
 // ── Bug extraction (deterministic) ──────────────────────────
 
-function extractBugs(steps: readonly StepExecutionResult[]): BugReport[] {
+export function extractBugs(steps: readonly StepExecutionResult[]): BugReport[] {
   const bugs: BugReport[] = [];
 
   for (const sr of steps) {
@@ -135,7 +210,7 @@ async function writeStepArtifact(
   result: StepExecutionResult,
 ): Promise<void> {
   const filePath = path.join(outputDir, `step-${String(stepIndex)}.json`);
-  await writeFile(filePath, JSON.stringify(result, null, 2), 'utf-8');
+  await writeFile(filePath, redact(JSON.stringify(result, null, 2)), 'utf-8');
 }
 
 // ── Main agent loop ──────────────────────────────────────────
@@ -157,14 +232,32 @@ export async function runAgentLoop(
   }, totalTimeout);
   const deadline = startedAt.getTime() + totalTimeout;
 
+  // Per-phase token accounting — each phase gets its own wrapped client
+  const usage = createUsageTracker(config.pricing, {
+    limits: config.budget,
+    parent: config.suiteUsage,
+  });
+  const loginClient = withUsageTracking(client, usage, 'login');
+  const plannerClient = withUsageTracking(client, usage, 'planner');
+  const evaluatorClient = withUsageTracking(client, usage, 'evaluator');
+
   // ── 1. Launch browser session ──────────────────────────────
 
   log.section(`Run: ${config.prompt}`);
   log.info(`Target: ${config.url}`);
 
+  // A saved login skips the login flow while it is fresh and valid
+  const savedAuth = config.loginPrompt && config.authState
+    ? await loadAuthState(config.authState)
+    : undefined;
+
   const session = await launchSession({
     headless: config.headless,
     screenshotDir,
+    browser: config.browser,
+    storageState: savedAuth,
+    variables: config.variables,
+    httpAuth: config.httpAuth,
   });
 
   try {
@@ -177,6 +270,19 @@ export async function runAgentLoop(
     // ── 3. Pre-scan target URL ─────────────────────────────────
 
     let snapshot = await prescanPage(session.page, config.url);
+
+    let loginRestored = false;
+    if (savedAuth) {
+      loginRestored = (await checkLoginSuccess(session.page, config.loginCheck)).ok;
+      if (loginRestored) {
+        log.login('Reusing saved login session');
+      } else {
+        log.login('Saved login session is no longer valid — logging in again');
+        await session.clearAuthState();
+        snapshot = await prescanPage(session.page, config.url);
+      }
+    }
+
     log.prescan(snapshot.elements.length, config.url);
 
     // Capture screenshot for vision-assisted planning
@@ -191,14 +297,49 @@ export async function runAgentLoop(
 
     // ── 4. Login flow (if requested) ─────────────────────────
 
-    let loginFailed = false;
+    let login: LoginOutcome | undefined;
+    let loginSteps: Step[] | undefined;
+    const loginResults: StepExecutionResult[] = [];
 
-    if (config.loginPrompt) {
+    // Ends the run before any test step — always writes summary.json
+    const stopEarly = async (
+      verdict: EvaluationVerdict,
+      bug: BugReport,
+      exitCode: number,
+    ): Promise<AgentLoopResult> => {
+      const finishedAt = new Date();
+      const summary: RunSummary = {
+        runId,
+        url: config.url,
+        prompt: config.prompt,
+        summary: verdict,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        steps: [],
+        bugs: [bug],
+        usage: usage.snapshot(),
+        ...(config.environment !== undefined ? { environment: config.environment } : {}),
+        ...(config.role !== undefined ? { role: config.role } : {}),
+        ...(config.parameters !== undefined ? { parameters: { ...config.parameters } } : {}),
+        ...(login !== undefined ? { login } : {}),
+      };
+
+      const jsonOutput = generateJSON(summary, exitCode);
+      const summaryPath = path.join(config.outputDir, 'summary.json');
+      await writeFile(summaryPath, serializeJSON(jsonOutput) + '\n', 'utf-8').catch(() => {});
+
+      return { summary, exitCode };
+    };
+
+    if (loginRestored) {
+      login = { status: 'restored', url: session.page.url(), failedChecks: [] };
+    } else if (config.loginPrompt) {
       try {
         log.section('Login Flow');
-        log.login('Starting login flow...');
-        const loginSteps = await planSteps(client, {
-          prompt: config.loginPrompt,
+        log.login(`Starting login flow${config.role !== undefined ? ` as ${config.role}` : ''}...`);
+        loginSteps = await planSteps(loginClient, {
+          prompt: withVariableHints(config.loginPrompt, config.variables),
           baseUrl: config.url,
           snapshot,
           screenshotBase64,
@@ -207,32 +348,24 @@ export async function runAgentLoop(
           const loginStep = loginSteps[i]!;
           log.step(i, loginSteps.length, loginStep.description);
           const result = await session.executeStep(loginStep, i);
+          loginResults.push(result);
           if (!result.success) {
             log.error(`Login step failed: ${loginStep.description}`);
             throw new Error(`Login step ${String(i + 1)} failed: ${loginStep.description}`);
           }
         }
         log.login('Login flow complete');
-        log.info('Waiting for page to settle after login...');
-
-        // Wait for login form to disappear (SPA-aware)
-        try {
-          await session.page.waitForFunction(
-            () => {
-              const buttons = document.querySelectorAll('button');
-              for (const btn of buttons) {
-                if (btn.textContent?.trim() === 'Anmelden' && btn.offsetParent !== null) {
-                  return false;
-                }
-              }
-              return true;
-            },
-            { timeout: 10_000 },
+        log.info('Verifying login...');
+
+        // Configured success predicates, or "login form is gone"
+        const check = await checkLoginSuccess(session.page, config.loginCheck);
+        if (!check.ok) {
+          throw new LoginError(
+            `Login success check failed: ${check.failures.join('; ')}`,
+            check.failures,
           );
-          log.login('Login form disappeared — auth successful');
-        } catch {
-          log.warn('Login button still visible after 10s — login may have failed');
         }
+        log.login('Login verified');
 
         // Let the app finish rendering
         try {
@@ -241,6 +374,16 @@ export async function runAgentLoop(
           // Non-fatal
         }
 
+        // Persist the session so later tests and runs skip the login
+        if (config.authState) {
+          await saveAuthState(config.authState, config.url, await session.storageState())
+            .catch((err: unknown) => {
+              log.warn(`Could not save login session: ${err instanceof Error ? err.message : String(err)}`);
+            });
+        }
+
+        login = { status: 'succeeded', url: session.page.url(), failedChecks: [] };
+
         // Re-scan after login — without navigating, to preserve auth state
         snapshot = await prescanCurrentPage(session.page);
         log.prescan(snapshot.elements.length, session.page.url());
@@ -251,27 +394,44 @@ export async function runAgentLoop(
           screenshotBase64 = undefined;
         }
       } catch (loginErr) {
-        loginFailed = true;
         const loginMessage = loginErr instanceof Error ? loginErr.message : String(loginErr);
+
+        if (loginErr instanceof BudgetExceededError) {
+          log.error(`Login stopped: ${loginMessage}`);
+          const stop = budgetStopOutcome(loginErr, 'UNCERTAIN', 0);
+          return stopEarly(stop.verdict, stop.bug, stop.exitCode);
+        }
+
+        // Never test unauthenticated — stop with a structured login failure
         log.error(`Login flow failed: ${loginMessage}`);
-        log.warn('Continuing test run — results may reflect unauthenticated state');
-        // Take a screenshot to show the state at login failure
+        const failure = loginErr instanceof LoginError ? loginErr : new LoginError(loginMessage);
+
+        const screenshotPath = path.join(screenshotDir, 'login-failure.png');
+        let captured = false;
         try {
-          const buf = await session.page.screenshot({ type: 'png' });
-          screenshotBase64 = buf.toString('base64');
-          await session.page.screenshot({
-            path: path.join(screenshotDir, 'login-failure.png'),
-            fullPage: true,
-          });
+          await session.page.screenshot({ path: screenshotPath, fullPage: true });
+          captured = true;
         } catch {
           // Browser may be in a bad state — nothing we can do
         }
-        // Re-scan if possible so planner has something to work with
-        try {
-          snapshot = await prescanCurrentPage(session.page);
-        } catch {
-          // Keep existing snapshot
-        }
+
+        login = {
+          status: 'failed',
+          url: session.page.url(),
+          reason: loginMessage,
+          failedChecks: [...failure.failedChecks],
+          ...(captured ? { screenshotPath } : {}),
+        };
+        return stopEarly(
+          'FAIL',
+          {
+            stepIndex: 0,
+            description: `Login failed: ${loginMessage}`,
+            severity: 'critical',
+            evidence: [...failure.failedChecks],
+          },
+          failure.exitCode,
+        );
       }
     }
 
@@ -280,41 +440,31 @@ export async function runAgentLoop(
     log.section('Planning');
     let steps: Step[];
     try {
-      steps = await planSteps(client, {
-        prompt: config.prompt,
+      steps = await planSteps(plannerClient, {
+        prompt: withVariableHints(config.prompt, config.variables),
         baseUrl: config.url,
         snapshot,
         screenshotBase64,
       });
     } catch (err) {
       const plannerMessage = err instanceof Error ? err.message : String(err);
-      const exitCode = err instanceof PlannerError ? err.exitCode : 4;
       log.error(`Planner failed: ${plannerMessage}`);
 
-      const finishedAt = new Date();
-      const failSummary: RunSummary = {
-        runId,
-        url: config.url,
-        prompt: config.prompt,
-        summary: 'FAIL',
-        startedAt: startedAt.toISOString(),
-        finishedAt: finishedAt.toISOString(),
-        durationMs: finishedAt.getTime() - startedAt.getTime(),
-        steps: [],
-        bugs: [{
+      // A budget stop is not a planner failure — report it as such
+      const stop = err instanceof BudgetExceededError
+        ? budgetStopOutcome(err, 'UNCERTAIN', 0)
+        : undefined;
+
+      return stopEarly(
+        stop?.verdict ?? 'FAIL',
+        stop?.bug ?? {
           stepIndex: 0,
           description: `Planner error: ${plannerMessage}`,
           severity: 'critical',
-          evidence: loginFailed ? ['Login flow also failed before planning'] : [],
-        }],
-      };
-
-      // Always write summary.json even on planner failure
-      const jsonOutput = generateJSON(failSummary, exitCode);
-      const summaryPath = path.join(config.outputDir, 'summary.json');
-      await writeFile(summaryPath, serializeJSON(jsonOutput) + '\n', 'utf-8').catch(() => {});
-
-      return { summary: failSummary, exitCode };
+          evidence: [],
+        },
+        stop?.exitCode ?? (err instanceof PlannerError ? err.exitCode : 4),
+      );
     }
 
     if (steps.length > maxSteps) {
@@ -327,6 +477,7 @@ export async function runAgentLoop(
     log.section('Execution');
     const results: StepExecutionResult[] = [];
     let prevVisibleText = snapshot.visibleText;
+    let budgetStop: BudgetExceededError | undefined;
 
     for (let i = 0; i < steps.length; i++) {
       // Check total run timeout
@@ -401,16 +552,27 @@ export async function runAgentLoop(
       // hard_fail or none: no retry
 
       // ── 4b. Evaluate with LLM ─────────────────────────────
+      // A passing assertion was already checked in the browser
 
-      if (Date.now() <= deadline) {
+      if (result.success && isAssertionStep(step)) {
+        result = {
+          ...result,
+          evaluation: { result: 'PASS', confidence: 1, reason: `Assertion held: ${step.description}` },
+        };
+      } else if (Date.now() <= deadline) {
         try {
-          const evaluation = await evaluateStep(client, {
+          const evaluation = await evaluateStep(evaluatorClient, {
             stepResult: result,
           });
           result = { ...result, evaluation };
         } catch (evalErr) {
           const evalMessage = evalErr instanceof Error ? evalErr.message : String(evalErr);
-          log.warn(`Evaluator failed for step ${String(i + 1)}: ${evalMessage}`);
+          if (evalErr instanceof BudgetExceededError) {
+            budgetStop = evalErr;
+            log.error(`Stopping: ${evalMessage}`);
+          } else {
+            log.warn(`Evaluator failed for step ${String(i + 1)}: ${evalMessage}`);
+          }
           // Continue without evaluation — step result still gets recorded
         }
       }
@@ -427,7 +589,13 @@ export async function runAgentLoop(
 
       prevVisibleText = result.visibleText;
 
-      // ── 4d. Hard fail → stop early ─────────────────────────
+      // ── 4d. Budget exhausted → stop cleanly ────────────────
+
+      if (budgetStop) {
+        break;
+      }
+
+      // ── 4e. Hard fail → stop early ─────────────────────────
 
       if (!result.success || classifyFailure(result, prevVisibleText) === 'hard_fail') {
         if (classifyFailure(result, prevVisibleText) === 'hard_fail') {
@@ -437,10 +605,32 @@ export async function runAgentLoop(
       }
     }
 
+    // Record the plan so the run can be replayed without the planner.
+    // Written after execution so healed selectors replace the guessed ones.
+    await writePlanFile(config.outputDir, {
+      source: 'planner',
+      url: config.url,
+      prompt: config.prompt,
+      ...(loginSteps !== undefined ? { loginSteps: stepsFromResults(loginResults) } : {}),
+      steps: replayableSteps(steps, results),
+    }).catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err);
+      log.warn(`Could not write plan file: ${message}`);
+    });
+
     // ── 5. Calculate deterministic summary ─────────────────────
 
-    const verdict: EvaluationVerdict = computeSummaryVerdict(results);
+    let verdict: EvaluationVerdict = computeSummaryVerdict(results);
+    let exitCode = verdict === 'PASS' ? 0 : verdict === 'FAIL' ? 1 : 2;
     const bugs = extractBugs(results);
+
+    if (budgetStop) {
+      const stop = budgetStopOutcome(budgetStop, verdict, results.length);
+      verdict = stop.verdict;
+      exitCode = stop.exitCode;
+      bugs.push(stop.bug);
+    }
+
     const finishedAt = new Date();
 
     log.section('Summary');
@@ -460,10 +650,13 @@ export async function runAgentLoop(
       durationMs: finishedAt.getTime() - startedAt.getTime(),
       steps: results,
       bugs,
+      usage: usage.snapshot(),
+      ...(config.environment !== undefined ? { environment: config.environment } : {}),
+      ...(config.role !== undefined ? { role: config.role } : {}),
+      ...(config.parameters !== undefined ? { parameters: { ...config.parameters } } : {}),
+      ...(login !== undefined ? { login } : {}),
     };
 
-    const exitCode = verdict === 'PASS' ? 0 : verdict === 'FAIL' ? 1 : 2;
-
     // Write contract-format summary.json (sorted keys, stable output)
     const jsonOutput = generateJSON(summary, exitCode);
     const summaryPath = path.join(config.outputDir, 'summary.json');
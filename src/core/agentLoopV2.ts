@@ -3,7 +3,15 @@ import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
+import type { Browser } from 'playwright';
+
 import type { LLMClient } from '../llm/index.js';
+import {
+  createUsageTracker,
+  withUsageTracking,
+  BudgetExceededError,
+} from '../llm/usage.js';
+import type { UsageTracker } from '../llm/usage.js';
 import type {
   Step,
   StepExecutionResult,
@@ -11,8 +19,12 @@ import type {
   RunSummary,
   EvaluationVerdict,
   PageSnapshot,
+  PriceTable,
+  BudgetLimits,
+  LoginOutcome,
+  LoginSuccessCheck,
 } from '../schema/index.js';
-import { computeSummaryVerdict } from '../schema/index.js';
+import { computeSummaryVerdict, selectorStrategySchema } from '../schema/index.js';
 import type {
   AgentStepResponse,
   AgentFinalEvaluation,
@@ -22,12 +34,21 @@ import {
   agentStepResponseSchema,
   agentFinalEvaluationSchema,
 } from '../schema/agentStep.js';
-import { TIMEOUTS, TOKEN_GUARDS } from '../config/defaults.js';
+import { TIMEOUTS, LIMITS, TOKEN_GUARDS } from '../config/defaults.js';
 import * as log from '../utils/logger.js';
-import type { CookieParam } from '../browser/runner.js';
+import { redact } from '../utils/redact.js';
+import type { CookieParam, HttpAuth } from '../browser/runner.js';
 import { launchSession } from '../browser/runner.js';
+import { withVariableHints } from '../browser/variables.js';
+import type { StepVariables } from '../browser/variables.js';
 import { prescanCurrentPage } from '../browser/prescan.js';
+import type { AuthStateOptions } from '../browser/authState.js';
+import { loadAuthState, saveAuthState } from '../browser/authState.js';
+import { checkLoginSuccess, LoginError } from '../browser/auth.js';
 import { generateJSON, serializeJSON } from '../report/reporter.js';
+import { stepsFromResults } from '../report/exporter.js';
+import { writePlanFile } from './planFile.js';
+import { budgetStopOutcome } from './budget.js';
 
 // ── Public types ─────────────────────────────────────────────
 
@@ -39,7 +60,29 @@ export interface AgentLoopV2Config {
   maxSteps?: number | undefined;
   totalTimeout?: number | undefined;
   cookies?: readonly CookieParam[] | undefined;
+  /** Headers and basic credentials sent to the target origin. */
+  httpAuth?: HttpAuth | undefined;
   loginPrompt?: string | undefined;
+  /** Config environment the run was loaded with, shown in reports. */
+  environment?: string | undefined;
+  /** Auth role the login belongs to, shown in reports. */
+  role?: string | undefined;
+  /** Data-driven parameter values, shown in reports. */
+  parameters?: Readonly<Record<string, string>> | undefined;
+  /** `${{ name }}` values steps can type, e.g. a 2FA code. */
+  variables?: StepVariables | undefined;
+  /** How to verify the login; defaults to "no password field visible". */
+  loginCheck?: LoginSuccessCheck | undefined;
+  /** Persist the login's storage state and reuse it while valid. */
+  authState?: AuthStateOptions | undefined;
+  /** Shared browser for parallel runs — each run gets its own context. */
+  browser?: Browser | undefined;
+  /** Price table overrides for the usage cost estimate. */
+  pricing?: PriceTable | undefined;
+  /** Hard LLM limits for this run. */
+  budget?: BudgetLimits | undefined;
+  /** Suite-wide tracker whose limits this run also counts against. */
+  suiteUsage?: UsageTracker | undefined;
 }
 
 export interface AgentLoopV2Result {
@@ -71,35 +114,30 @@ function fixupRawAction(parsed: unknown): unknown {
       step['description'] = `${step['type']} step`;
     }
 
-    // Fix invalid selector strategies
-    const selector = step['selector'];
-    if (typeof selector === 'object' && selector !== null) {
-      const sel = selector as Record<string, unknown>;
-      const strategy = sel['strategy'];
-      const value = sel['value'];
-
-      if (typeof strategy === 'string' && typeof value === 'string') {
-        if (!['testid', 'role', 'text', 'css'].includes(strategy)) {
-          switch (strategy) {
-            case 'placeholder':
-              sel['strategy'] = 'css';
-              sel['value'] = `input[placeholder='${value}']`;
-              break;
-            case 'name':
-              sel['strategy'] = 'css';
-              sel['value'] = `[name='${value}']`;
-              break;
-            case 'id':
-              sel['strategy'] = 'css';
-              sel['value'] = `#${value}`;
-              break;
-            case 'label':
-              sel['strategy'] = 'text';
-              break;
-            default:
-              sel['strategy'] = 'css';
-              sel['value'] = `[${strategy}='${value}']`;
-              break;
+    // Fix invalid selector strategies (drag has two, scroll an `until` hint)
+    for (const field of ['selector', 'source', 'target', 'until']) {
+      const selector = step[field];
+      if (typeof selector === 'object' && selector !== null) {
+        const sel = selector as Record<string, unknown>;
+        const strategy = sel['strategy'];
+        const value = sel['value'];
+
+        if (typeof strategy === 'string' && typeof value === 'string') {
+          if (!selectorStrategySchema.safeParse(strategy).success) {
+            switch (strategy) {
+              case 'name':
+                sel['strategy'] = 'css';
+                sel['value'] = `[name='${value}']`;
+                break;
+              case 'id':
+                sel['strategy'] = 'css';
+                sel['value'] = `#${value}`;
+                break;
+              default:
+                sel['strategy'] = 'css';
+                sel['value'] = `[${strategy}='${value}']`;
+                break;
+            }
           }
         }
       }
@@ -115,6 +153,11 @@ function fixupRawAction(parsed: unknown): unknown {
         step['value'] = desc.slice(0, 50) || 'page content';
       }
     }
+
+    // Fix count given as a string on expect_count
+    if (step['type'] === 'expect_count' && typeof step['count'] === 'string' && /^\d+$/.test(step['count'])) {
+      step['count'] = Number(step['count']);
+    }
   }
 
   return parsed;
@@ -195,6 +238,7 @@ function formatElement(el: PageSnapshot['elements'][number]): string {
   if (el.disabled) parts.push('[DISABLED]');
   if (el.ariaBusy) parts.push('[BUSY]');
   if (el.readOnly) parts.push('[READONLY]');
+  if (el.inViewport === false) parts.push('[OFFSCREEN]');
   if (el.classList && /loading|disabled|opacity/i.test(el.classList)) {
     parts.push(`[class=${el.classList}]`);
   }
@@ -219,6 +263,16 @@ function formatHistory(history: readonly ActionHistoryEntry[]): string {
     .join('\n');
 }
 
+// ── Tab formatting ──────────────────────────────────────────
+
+/** One line per open tab; "(only this tab)" when there is just one. */
+function formatTabs(session: SubLoopConfig['session']): string {
+  if (session.pages.length < 2) return '(only this tab)';
+  return session.pages
+    .map((page, index) => `${String(index)}: ${page.url()}${page === session.page ? '  ← current tab' : ''}`)
+    .join('\n');
+}
+
 // ── Prompt building ─────────────────────────────────────────
 
 async function buildStepPrompt(
@@ -226,6 +280,7 @@ async function buildStepPrompt(
   snapshot: PageSnapshot,
   history: readonly ActionHistoryEntry[],
   stuckHint: string = '',
+  tabs: string = '(only this tab)',
 ): Promise<string> {
   const template = await readFile(
     path.join(PROMPTS_DIR, 'agent_step.txt'),
@@ -242,6 +297,7 @@ async function buildStepPrompt(
     .replace('{{title}}', snapshot.title)
     .replace('{{visibleText}}', snapshot.visibleText.slice(0, TOKEN_GUARDS.MAX_VISIBLE_TEXT_CHARS))
     .replace('{{elements}}', elementsText)
+    .replace('{{tabs}}', tabs)
     .replace('{{history}}', formatHistory(history));
 
   return prompt + stuckHint;
@@ -273,8 +329,9 @@ async function decideNextStep(
   screenshotBase64: string | undefined,
   history: readonly ActionHistoryEntry[],
   stuckHint: string = '',
+  tabs?: string,
 ): Promise<AgentStepResponse> {
-  const prompt = await buildStepPrompt(goal, snapshot, history, stuckHint);
+  const prompt = await buildStepPrompt(goal, snapshot, history, stuckHint, tabs);
 
   let raw: string;
   if (screenshotBase64 && client.generateWithImage) {
@@ -371,6 +428,40 @@ function describeAction(step: Step): string {
       return `expect_text "${step.value}"`;
     case 'press_key':
       return `press_key "${step.value}"`;
+    case 'hover':
+      return `hover ${step.selector.strategy}="${step.selector.value}"`;
+    case 'dblclick':
+      return `dblclick ${step.selector.strategy}="${step.selector.value}"`;
+    case 'right_click':
+      return `right_click ${step.selector.strategy}="${step.selector.value}"`;
+    case 'drag':
+      return `drag ${step.source.strategy}="${step.source.value}" → ${step.target.strategy}="${step.target.value}"`;
+    case 'scroll': {
+      const until = step.until === undefined
+        ? ''
+        : step.until === 'end'
+          ? ' until end'
+          : ` until ${step.until.strategy}="${step.until.value}"`;
+      const where = step.selector ? ` ${step.selector.strategy}="${step.selector.value}"` : '';
+      return `scroll${where} ${step.direction ?? 'down'}${until}`;
+    }
+    case 'expect_url':
+      return `expect_url /${step.value}/`;
+    case 'expect_title':
+      return `expect_title "${step.value}"`;
+    case 'expect_count':
+      return `expect_count ${String(step.count)} × ${step.selector.strategy}="${step.selector.value}"`;
+    case 'expect_attribute':
+      return `expect_attribute ${step.selector.strategy}="${step.selector.value}" ${step.attribute}`;
+    case 'expect_value':
+      return `expect_value ${step.selector.strategy}="${step.selector.value}" = "${step.value}"`;
+    case 'expect_visible':
+    case 'expect_hidden':
+    case 'expect_enabled':
+    case 'expect_disabled':
+      return `${step.type} ${step.selector.strategy}="${step.selector.value}"`;
+    case 'switch_tab':
+      return `switch_tab "${step.value}"`;
     default:
       return `${step.type}`;
   }
@@ -430,14 +521,18 @@ async function writeStepArtifact(
   result: StepExecutionResult,
 ): Promise<void> {
   const filePath = path.join(outputDir, `step-${String(stepIndex)}.json`);
-  await writeFile(filePath, JSON.stringify(result, null, 2), 'utf-8');
+  await writeFile(filePath, redact(JSON.stringify(result, null, 2)), 'utf-8');
 }
 
 // ── Observe-Decide-Act sub-loop ─────────────────────────────
 
 interface SubLoopConfig {
   client: LLMClient;
-  session: { page: import('playwright').Page; executeStep: (step: Step, index: number) => Promise<StepExecutionResult> };
+  session: {
+    page: import('playwright').Page;
+    pages: readonly import('playwright').Page[];
+    executeStep: (step: Step, index: number) => Promise<StepExecutionResult>;
+  };
   goal: string;
   maxSteps: number;
   deadline: number;
@@ -451,12 +546,15 @@ interface SubLoopResult {
   history: ActionHistoryEntry[];
   done: boolean;
   doneSummary?: string;
+  /** Set when the LLM budget ran out mid-loop. */
+  budgetStop?: BudgetExceededError;
 }
 
 async function runSubLoop(config: SubLoopConfig): Promise<SubLoopResult> {
   const { client, session, goal, maxSteps, deadline, screenshotDir, outputDir, stepOffset } = config;
   const results: StepExecutionResult[] = [];
   const history: ActionHistoryEntry[] = [];
+  let consecutiveDecideErrors = 0;
 
   for (let i = 0; i < maxSteps; i++) {
     if (Date.now() > deadline) {
@@ -511,9 +609,16 @@ async function runSubLoop(config: SubLoopConfig): Promise<SubLoopResult> {
 
     let decision: AgentStepResponse;
     try {
-      decision = await decideNextStep(client, goal, snapshot, screenshotBase64, history, stuckHint);
+      decision = await decideNextStep(
+        client, goal, snapshot, screenshotBase64, history, stuckHint, formatTabs(session),
+      );
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
+      if (err instanceof BudgetExceededError) {
+        log.error(`Stopping agent loop: ${msg}`);
+        return { results, history, done: false, budgetStop: err };
+      }
+
       log.error(`Agent decision failed: ${msg}`);
       // Record in history as a failed LLM call and continue
       history.push({
@@ -523,8 +628,17 @@ async function runSubLoop(config: SubLoopConfig): Promise<SubLoopResult> {
         success: false,
         observation: `LLM error: ${msg}`,
       });
+
+      // A broken provider or prompt fails every call the same way —
+      // don't burn the remaining steps on it
+      consecutiveDecideErrors++;
+      if (consecutiveDecideErrors >= LIMITS.MAX_CONSECUTIVE_LLM_ERRORS) {
+        log.error(`${String(consecutiveDecideErrors)} consecutive decision failures — stopping agent loop`);
+        break;
+      }
       continue;
     }
+    consecutiveDecideErrors = 0;
 
     // ── CHECK DONE ───────────────────────────────────────
     if (decision.done) {
@@ -595,9 +709,12 @@ async function runSubLoop(config: SubLoopConfig): Promise<SubLoopResult> {
       // Non-fatal — keep the before count as fallback
     }
 
-    const observation = result.success
+    const observation = (result.success
       ? `Page at ${result.url}${result.visibleText.length > 0 ? ` — text starts: "${result.visibleText.slice(0, 80)}..."` : ''}`
-      : `Failed — ${result.capture.pageErrors[0]?.message ?? 'element not found or action failed'}`;
+      : `Failed — ${result.capture.pageErrors[0]?.message ?? 'element not found or action failed'}`) +
+      (result.openedTabs !== undefined
+        ? ` — opened a new tab (${result.openedTabs.join(', ')}), now the current tab`
+        : '');
 
     history.push({
       stepIndex: i,
@@ -634,14 +751,29 @@ export async function runAgentLoopV2(
 
   const deadline = startedAt.getTime() + totalTimeout;
 
+  // Per-phase token accounting — each phase gets its own wrapped client
+  const usage = createUsageTracker(config.pricing, {
+    limits: config.budget,
+    parent: config.suiteUsage,
+  });
+
   // ── 1. Launch browser session ──────────────────────────
 
   log.section(`Run (V2 Agent): ${config.prompt}`);
   log.info(`Target: ${config.url}`);
 
+  // A saved login skips the login sub-loop while it is fresh and valid
+  const savedAuth = config.loginPrompt && config.authState
+    ? await loadAuthState(config.authState)
+    : undefined;
+
   const session = await launchSession({
     headless: config.headless,
     screenshotDir,
+    browser: config.browser,
+    storageState: savedAuth,
+    variables: config.variables,
+    httpAuth: config.httpAuth,
   });
 
   try {
@@ -659,18 +791,39 @@ export async function runAgentLoopV2(
       waitUntil: 'domcontentloaded',
     });
 
+    let loginRestored = false;
+    if (savedAuth) {
+      loginRestored = (await checkLoginSuccess(session.page, config.loginCheck)).ok;
+      if (loginRestored) {
+        log.login('Reusing saved login session');
+      } else {
+        log.login('Saved login session is no longer valid — logging in again');
+        await session.clearAuthState();
+        await session.page.goto(config.url, {
+          timeout: TIMEOUTS.NAVIGATION_TIMEOUT,
+          waitUntil: 'domcontentloaded',
+        });
+      }
+    }
+
     // ── 4. Login sub-loop (if requested) ─────────────────
 
     let loginStepCount = 0;
-
-    if (config.loginPrompt) {
+    let loginSteps: Step[] = [];
+    let budgetStop: BudgetExceededError | undefined;
+    let loginFailure: LoginError | undefined;
+    let login: LoginOutcome | undefined;
+
+    if (loginRestored) {
+      login = { status: 'restored', url: session.page.url(), failedChecks: [] };
+    } else if (config.loginPrompt) {
       log.section('Login Flow (V2 Agent)');
-      log.login('Starting agent-driven login...');
+      log.login(`Starting agent-driven login${config.role !== undefined ? ` as ${config.role}` : ''}...`);
 
       const loginResult = await runSubLoop({
-        client,
+        client: withUsageTracking(client, usage, 'login'),
         session,
-        goal: config.loginPrompt,
+        goal: withVariableHints(config.loginPrompt, config.variables),
         maxSteps: LOGIN_MAX_STEPS,
         deadline,
         screenshotDir,
@@ -679,18 +832,65 @@ export async function runAgentLoopV2(
       });
 
       loginStepCount = loginResult.results.length;
+      loginSteps = stepsFromResults(loginResult.results);
+      budgetStop = loginResult.budgetStop;
 
-      if (loginResult.done) {
-        log.login(`Login complete: ${loginResult.doneSummary ?? 'done'}`);
+      if (budgetStop) {
+        log.warn('LLM budget exhausted during login — skipping test execution');
       } else {
-        log.warn('Login sub-loop ended without agent confirming done — continuing anyway');
-      }
+        if (loginResult.done) {
+          log.login(`Agent reports login complete: ${loginResult.doneSummary ?? 'done'}`);
+        } else {
+          log.warn('Login sub-loop ended without agent confirming done');
+        }
 
-      // Let the app settle after login
-      try {
-        await session.page.waitForLoadState('networkidle', { timeout: 5_000 });
-      } catch {
-        // Non-fatal
+        // The agent's word is not enough — verify with the success check
+        log.info('Verifying login...');
+        const check = await checkLoginSuccess(session.page, config.loginCheck);
+
+        if (check.ok) {
+          log.login('Login verified');
+
+          // Let the app settle after login
+          try {
+            await session.page.waitForLoadState('networkidle', { timeout: 5_000 });
+          } catch {
+            // Non-fatal
+          }
+
+          // Persist the session so later tests and runs skip the login
+          if (config.authState) {
+            await saveAuthState(config.authState, config.url, await session.storageState())
+              .catch((err: unknown) => {
+                log.warn(`Could not save login session: ${err instanceof Error ? err.message : String(err)}`);
+              });
+          }
+
+          login = { status: 'succeeded', url: session.page.url(), failedChecks: [] };
+        } else {
+          loginFailure = new LoginError(
+            `Login success check failed: ${check.failures.join('; ')}`,
+            check.failures,
+          );
+          log.error(`Login flow failed: ${loginFailure.message}`);
+
+          const screenshotPath = path.join(screenshotDir, 'login-failure.png');
+          let captured = false;
+          try {
+            await session.page.screenshot({ path: screenshotPath, fullPage: true });
+            captured = true;
+          } catch {
+            // Browser may be in a bad state
+          }
+
+          login = {
+            status: 'failed',
+            url: session.page.url(),
+            reason: loginFailure.message,
+            failedChecks: check.failures,
+            ...(captured ? { screenshotPath } : {}),
+          };
+        }
       }
     }
 
@@ -698,26 +898,47 @@ export async function runAgentLoopV2(
 
     log.section('Test Execution (V2 Agent)');
 
-    const mainResult = await runSubLoop({
-      client,
-      session,
-      goal: config.prompt,
-      maxSteps,
-      deadline,
-      screenshotDir,
-      outputDir: config.outputDir,
-      stepOffset: loginStepCount,
-    });
+    // Never test unauthenticated — a failed login goes straight to the summary
+    const mainResult: SubLoopResult = budgetStop || loginFailure
+      ? { results: [], history: [], done: false }
+      : await runSubLoop({
+        client: withUsageTracking(client, usage, 'agent'),
+        session,
+        goal: withVariableHints(config.prompt, config.variables),
+        maxSteps,
+        deadline,
+        screenshotDir,
+        outputDir: config.outputDir,
+        stepOffset: loginStepCount,
+      });
+    budgetStop ??= mainResult.budgetStop;
 
     const allResults = mainResult.results;
 
+    // Record the agent-chosen actions so the run can be replayed
+    // without the agent. Failed attempts are left out — the agent
+    // already retried them with a different action. A failed login
+    // leaves nothing worth replaying.
+    if (!loginFailure) {
+      await writePlanFile(config.outputDir, {
+        source: 'agent',
+        url: config.url,
+        prompt: config.prompt,
+        ...(loginSteps.length > 0 ? { loginSteps } : {}),
+        steps: stepsFromResults(allResults),
+      }).catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        log.warn(`Could not write plan file: ${message}`);
+      });
+    }
+
     // ── 6. Final evaluation ──────────────────────────────
 
     log.section('Final Evaluation');
 
     let finalEvaluation: AgentFinalEvaluation | undefined;
 
-    if (Date.now() <= deadline) {
+    if (Date.now() <= deadline && !budgetStop && !loginFailure) {
       let finalSnapshot: PageSnapshot;
       try {
         finalSnapshot = await prescanCurrentPage(session.page);
@@ -745,7 +966,7 @@ export async function runAgentLoopV2(
 
       try {
         finalEvaluation = await runFinalEvaluation(
-          client,
+          withUsageTracking(client, usage, 'final_evaluation'),
           config.prompt,
           finalSnapshot,
           finalScreenshot,
@@ -754,7 +975,12 @@ export async function runAgentLoopV2(
         log.info(`Final evaluation: ${finalEvaluation.result} (confidence: ${String(finalEvaluation.confidence)}) — ${finalEvaluation.reason}`);
       } catch (evalErr) {
         const evalMsg = evalErr instanceof Error ? evalErr.message : String(evalErr);
-        log.warn(`Final evaluation failed: ${evalMsg}`);
+        if (evalErr instanceof BudgetExceededError) {
+          budgetStop = evalErr;
+          log.error(`Skipping final evaluation: ${evalMsg}`);
+        } else {
+          log.warn(`Final evaluation failed: ${evalMsg}`);
+        }
       }
     }
 
@@ -786,7 +1012,27 @@ export async function runAgentLoopV2(
       verdict = finalEvaluation.result;
     }
 
+    let exitCode = verdict === 'PASS' ? 0 : verdict === 'FAIL' ? 1 : 2;
     const bugs = extractBugs(allResults);
+
+    if (budgetStop) {
+      const stop = budgetStopOutcome(budgetStop, verdict, loginStepCount + allResults.length);
+      verdict = stop.verdict;
+      exitCode = stop.exitCode;
+      bugs.push(stop.bug);
+    }
+
+    if (loginFailure) {
+      verdict = 'FAIL';
+      exitCode = loginFailure.exitCode;
+      bugs.push({
+        stepIndex: 0,
+        description: `Login failed: ${loginFailure.message}`,
+        severity: 'critical',
+        evidence: [...loginFailure.failedChecks],
+      });
+    }
+
     const finishedAt = new Date();
 
     log.section('Summary');
@@ -806,10 +1052,14 @@ export async function runAgentLoopV2(
       durationMs: finishedAt.getTime() - startedAt.getTime(),
       steps: allResults,
       bugs,
+      actionHistory: mainResult.history,
+      usage: usage.snapshot(),
+      ...(config.environment !== undefined ? { environment: config.environment } : {}),
+      ...(config.role !== undefined ? { role: config.role } : {}),
+      ...(config.parameters !== undefined ? { parameters: { ...config.parameters } } : {}),
+      ...(login !== undefined ? { login } : {}),
     };
 
-    const exitCode = verdict === 'PASS' ? 0 : verdict === 'FAIL' ? 1 : 2;
-
     // Write contract-format summary.json
     const jsonOutput = generateJSON(summary, exitCode);
     const summaryPath = path.join(config.outputDir, 'summary.json');
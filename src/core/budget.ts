@@ -0,0 +1,37 @@
+import type { BugReport, EvaluationVerdict } from '../schema/index.js';
+import type { BudgetExceededError } from '../llm/usage.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface BudgetStopOutcome {
+  verdict: EvaluationVerdict;
+  exitCode: number;
+  bug: BugReport;
+}
+
+// ── Public API ──────────────────────────────────────────────
+
+/**
+ * Turn a budget stop into the run's verdict, exit code and bug entry.
+ * A FAIL found before the stop still stands; anything else is
+ * UNCERTAIN because the test never ran to completion.
+ */
+export function budgetStopOutcome(
+  stop: BudgetExceededError,
+  verdict: EvaluationVerdict,
+  stepIndex: number,
+): BudgetStopOutcome {
+  return {
+    verdict: verdict === 'FAIL' ? 'FAIL' : 'UNCERTAIN',
+    exitCode: verdict === 'FAIL' ? 1 : stop.exitCode,
+    bug: {
+      stepIndex,
+      description: `Run stopped early — LLM ${stop.message}`,
+      severity: 'minor',
+      evidence: [
+        `Limit: ${stop.limit} (${stop.scope})`,
+        'Raise the limit in the budget section of .promptqa.yaml or via the --max-* flags',
+      ],
+    },
+  };
+}
@@ -207,5 +207,43 @@ function describeExpected(sr: StepExecutionResult): string {
       return `Expect text "${sr.step.value}" to be visible`;
     case 'press_key':
       return `Press key "${sr.step.value}"`;
+    case 'hover':
+      return `Hover over element described as: ${sr.step.description}`;
+    case 'dblclick':
+      return `Double-click element described as: ${sr.step.description}`;
+    case 'right_click':
+      return `Right-click element described as: ${sr.step.description}`;
+    case 'drag':
+      return `Drag and drop as described: ${sr.step.description}`;
+    case 'scroll':
+      return sr.step.until === undefined
+        ? `Scroll ${sr.step.direction ?? 'down'}`
+        : sr.step.until === 'end'
+          ? 'Scroll until no more content loads'
+          : `Scroll until element is visible: ${sr.step.description}`;
+    case 'expect_url':
+      return `Expect URL to match /${sr.step.value}/`;
+    case 'expect_title':
+      return `Expect page title to contain "${sr.step.value}"`;
+    case 'expect_visible':
+      return `Expect element to be visible: ${sr.step.description}`;
+    case 'expect_hidden':
+      return `Expect element to be hidden: ${sr.step.description}`;
+    case 'expect_count':
+      return `Expect ${String(sr.step.count)} matching element(s): ${sr.step.description}`;
+    case 'expect_attribute':
+      return sr.step.value !== undefined
+        ? `Expect attribute ${sr.step.attribute}="${sr.step.value}"`
+        : `Expect attribute ${sr.step.attribute} to be present`;
+    case 'expect_value':
+      return `Expect field value "${sr.step.value}"`;
+    case 'expect_enabled':
+      return `Expect element to be enabled: ${sr.step.description}`;
+    case 'expect_disabled':
+      return `Expect element to be disabled: ${sr.step.description}`;
+    case 'switch_tab':
+      return `Switch to tab "${sr.step.value}"`;
+    case 'close_tab':
+      return 'Close the current tab';
   }
 }
@@ -12,3 +12,8 @@ export { runAgentLoop } from './agentLoop.js';
 export type { AgentLoopConfig, AgentLoopResult } from './agentLoop.js';
 export { runAgentLoopV2 } from './agentLoopV2.js';
 export type { AgentLoopV2Config, AgentLoopV2Result } from './agentLoopV2.js';
+export { runReplay } from './replay.js';
+export type { ReplayConfig, ReplayResult } from './replay.js';
+export { writePlanFile, loadPlanFile, PLAN_FILE_NAME } from './planFile.js';
+export { budgetStopOutcome } from './budget.js';
+export type { BudgetStopOutcome } from './budget.js';
@@ -0,0 +1,41 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { PlanFile } from '../schema/index.js';
+import { parsePlanFile, PLAN_FILE_VERSION } from '../schema/index.js';
+import { redact } from '../utils/redact.js';
+
+// ── Constants ────────────────────────────────────────────────
+
+export const PLAN_FILE_NAME = 'plan.json';
+
+// ── Public API ──────────────────────────────────────────────
+
+/**
+ * Write a versioned plan file next to `summary.json` so the run can
+ * be replayed later without the planner.
+ */
+export async function writePlanFile(
+  outputDir: string,
+  plan: Omit<PlanFile, 'version' | 'createdAt'>,
+): Promise<void> {
+  const file: PlanFile = {
+    version: PLAN_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    ...plan,
+  };
+  await writeFile(
+    path.join(outputDir, PLAN_FILE_NAME),
+    redact(JSON.stringify(file, null, 2)) + '\n',
+    'utf-8',
+  );
+}
+
+/**
+ * Load and validate a plan file.
+ * Throws a descriptive error if the file is missing or invalid.
+ */
+export async function loadPlanFile(planPath: string): Promise<PlanFile> {
+  const raw = await readFile(planPath, 'utf-8');
+  return parsePlanFile(JSON.parse(raw));
+}
@@ -4,7 +4,7 @@ import { fileURLToPath } from 'node:url';
 
 import type { LLMClient } from '../llm/index.js';
 import type { Step, PageSnapshot } from '../schema/index.js';
-import { stepListSchema } from '../schema/index.js';
+import { selectorStrategySchema, stepListSchema } from '../schema/index.js';
 import { LIMITS } from '../config/defaults.js';
 import * as log from '../utils/logger.js';
 
@@ -34,7 +34,7 @@ const THIS_DIR = path.dirname(fileURLToPath(import.meta.url));
 const PROMPTS_DIR = path.join(THIS_DIR, '..', '..', 'prompts');
 
 // ── Pre-validation fixups ────────────────────────────────────
-// The LLM sometimes invents strategies like "placeholder" or "name".
+// The LLM sometimes invents strategies like "name" or "id".
 // Convert these to valid CSS selectors before Zod validation.
 
 function fixupRawSteps(parsed: unknown): unknown {
@@ -49,36 +49,31 @@ function fixupRawSteps(parsed: unknown): unknown {
       s['description'] = `${s['type']} step`;
     }
 
-    // Fix invalid selector strategies
-    const selector = s['selector'];
-    if (typeof selector === 'object' && selector !== null) {
-      const sel = selector as Record<string, unknown>;
-      const strategy = sel['strategy'];
-      const value = sel['value'];
-
-      if (typeof strategy === 'string' && typeof value === 'string') {
-        if (!['testid', 'role', 'text', 'css'].includes(strategy)) {
-          // Convert to CSS selector
-          switch (strategy) {
-            case 'placeholder':
-              sel['strategy'] = 'css';
-              sel['value'] = `input[placeholder='${value}']`;
-              break;
-            case 'name':
-              sel['strategy'] = 'css';
-              sel['value'] = `[name='${value}']`;
-              break;
-            case 'id':
-              sel['strategy'] = 'css';
-              sel['value'] = `#${value}`;
-              break;
-            case 'label':
-              sel['strategy'] = 'text';
-              break;
-            default:
-              sel['strategy'] = 'css';
-              sel['value'] = `[${strategy}='${value}']`;
-              break;
+    // Fix invalid selector strategies (drag has two, scroll an `until` hint)
+    for (const field of ['selector', 'source', 'target', 'until']) {
+      const selector = s[field];
+      if (typeof selector === 'object' && selector !== null) {
+        const sel = selector as Record<string, unknown>;
+        const strategy = sel['strategy'];
+        const value = sel['value'];
+
+        if (typeof strategy === 'string' && typeof value === 'string') {
+          if (!selectorStrategySchema.safeParse(strategy).success) {
+            // Convert to CSS selector
+            switch (strategy) {
+              case 'name':
+                sel['strategy'] = 'css';
+                sel['value'] = `[name='${value}']`;
+                break;
+              case 'id':
+                sel['strategy'] = 'css';
+                sel['value'] = `#${value}`;
+                break;
+              default:
+                sel['strategy'] = 'css';
+                sel['value'] = `[${strategy}='${value}']`;
+                break;
+            }
           }
         }
       }
@@ -95,6 +90,11 @@ function fixupRawSteps(parsed: unknown): unknown {
         s['value'] = desc.slice(0, 50) || 'page content';
       }
     }
+
+    // Fix count given as a string ("3") on expect_count steps
+    if (s['type'] === 'expect_count' && typeof s['count'] === 'string' && /^\d+$/.test(s['count'])) {
+      s['count'] = Number(s['count']);
+    }
   }
 
   return parsed;
@@ -261,6 +261,7 @@ function formatElement(el: PageSnapshot['elements'][number]): string {
   if (el.disabled) parts.push('DISABLED');
   if (el.ariaBusy) parts.push('BUSY');
   if (el.readOnly) parts.push('READONLY');
+  if (el.inViewport === false) parts.push('OFFSCREEN');
   if (el.classList && /loading|disabled|opacity/i.test(el.classList)) {
     parts.push(`class="${el.classList}"`);
   }
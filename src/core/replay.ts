@@ -0,0 +1,394 @@
+import { randomUUID } from 'node:crypto';
+import { writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { Page } from 'playwright';
+
+import type { LLMClient } from '../llm/index.js';
+import { createUsageTracker, withUsageTracking } from '../llm/usage.js';
+import type {
+  Step,
+  StepExecutionResult,
+  RunSummary,
+  BugReport,
+  EvaluationVerdict,
+  LoginOutcome,
+  LoginSuccessCheck,
+  PlanFile,
+  PriceTable,
+} from '../schema/index.js';
+import { computeSummaryVerdict } from '../schema/index.js';
+import { TIMEOUTS } from '../config/defaults.js';
+import * as log from '../utils/logger.js';
+import { redact } from '../utils/redact.js';
+import type { CookieParam, HttpAuth } from '../browser/runner.js';
+import { launchSession } from '../browser/runner.js';
+import { withVariableHints } from '../browser/variables.js';
+import type { StepVariables } from '../browser/variables.js';
+import { prescanCurrentPage } from '../browser/prescan.js';
+import type { AuthStateOptions } from '../browser/authState.js';
+import { loadAuthState, saveAuthState } from '../browser/authState.js';
+import { checkLoginSuccess, LoginError } from '../browser/auth.js';
+import { generateJSON, serializeJSON } from '../report/reporter.js';
+import { planSteps, PlannerError } from './planner.js';
+import { extractBugs } from './agentLoop.js';
+import { writePlanFile } from './planFile.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface ReplayConfig {
+  plan: PlanFile;
+  headless: boolean;
+  outputDir: string;
+  totalTimeout?: number | undefined;
+  cookies?: readonly CookieParam[] | undefined;
+  /** Headers and basic credentials sent to the target origin. */
+  httpAuth?: HttpAuth | undefined;
+  /** `${{ name }}` values the recorded steps reference. */
+  variables?: StepVariables | undefined;
+  /** Config environment the replay was loaded with, shown in reports. */
+  environment?: string | undefined;
+  /** Auth role the login belongs to, shown in reports. */
+  role?: string | undefined;
+  /** How to verify a restored login; defaults to "no password field visible". */
+  loginCheck?: LoginSuccessCheck | undefined;
+  /**
+   * Saved login to restore instead of replaying the recorded login
+   * steps, and where to save it after they run.
+   */
+  authState?: AuthStateOptions | undefined;
+  /**
+   * LLM used to re-plan the remaining steps when a replayed step fails.
+   * Omit to run fully offline — a failed step then fails the run.
+   */
+  fallbackClient?: LLMClient | undefined;
+  /** Price table overrides for the usage cost estimate. */
+  pricing?: PriceTable | undefined;
+}
+
+export interface ReplayResult {
+  summary: RunSummary;
+  exitCode: number;
+  /** True when the planner was called to recover from a failed step. */
+  usedFallback: boolean;
+}
+
+// ── Artifact writing ─────────────────────────────────────────
+
+async function writeStepArtifact(
+  outputDir: string,
+  stepIndex: number,
+  result: StepExecutionResult,
+): Promise<void> {
+  const filePath = path.join(outputDir, `step-${String(stepIndex)}.json`);
+  await writeFile(filePath, redact(JSON.stringify(result, null, 2)), 'utf-8');
+}
+
+// ── Main replay loop ─────────────────────────────────────────
+
+/**
+ * Execute a recorded plan step-by-step with no planner or evaluator
+ * calls. The verdict is purely deterministic: a step passes when the
+ * runner executed it without error.
+ *
+ * A failed recorded login ends the replay with a login failure (exit
+ * code 6) — the test steps never run logged out.
+ *
+ * When a step fails and a fallback client is configured, the planner
+ * is asked once for fresh steps from the current page, and the
+ * healed plan is written to the output directory.
+ */
+export async function runReplay(config: ReplayConfig): Promise<ReplayResult> {
+  const runId = randomUUID();
+  const startedAt = new Date();
+  const totalTimeout = config.totalTimeout ?? TIMEOUTS.TOTAL_RUN_TIMEOUT;
+  const { plan } = config;
+
+  const screenshotDir = path.join(config.outputDir, 'screenshots');
+  await mkdir(config.outputDir, { recursive: true });
+
+  const deadline = startedAt.getTime() + totalTimeout;
+  const usage = createUsageTracker(config.pricing);
+
+  log.section(`Replay: ${plan.prompt}`);
+  log.info(`Target: ${plan.url}`);
+  log.info(`Plan: ${String(plan.steps.length)} steps recorded by ${plan.source} at ${plan.createdAt}`);
+
+  const loginSteps = plan.loginSteps ?? [];
+
+  // A saved login skips the recorded login steps while it is fresh and valid
+  const savedAuth = loginSteps.length > 0 && config.authState
+    ? await loadAuthState(config.authState)
+    : undefined;
+
+  const session = await launchSession({
+    headless: config.headless,
+    screenshotDir,
+    storageState: savedAuth,
+    httpAuth: config.httpAuth,
+    variables: config.variables,
+  });
+
+  try {
+    if (config.cookies && config.cookies.length > 0) {
+      await session.addCookies(config.cookies);
+    }
+
+    await session.page.goto(plan.url, {
+      timeout: TIMEOUTS.NAVIGATION_TIMEOUT,
+      waitUntil: 'domcontentloaded',
+    });
+
+    // ── 1. Recorded login steps ───────────────────────────
+
+    let login: LoginOutcome | undefined;
+
+    // Ends the replay before any test step — always writes summary.json
+    const stopEarly = async (bug: BugReport, exitCode: number): Promise<ReplayResult> => {
+      const finishedAt = new Date();
+      const summary: RunSummary = {
+        runId,
+        url: plan.url,
+        prompt: plan.prompt,
+        summary: 'FAIL',
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        steps: [],
+        bugs: [bug],
+        usage: usage.snapshot(),
+        ...(config.environment !== undefined ? { environment: config.environment } : {}),
+        ...(config.role !== undefined ? { role: config.role } : {}),
+        ...(login !== undefined ? { login } : {}),
+      };
+
+      const jsonOutput = generateJSON(summary, exitCode);
+      const summaryPath = path.join(config.outputDir, 'summary.json');
+      await writeFile(summaryPath, serializeJSON(jsonOutput) + '\n', 'utf-8').catch(() => {});
+
+      return { summary, exitCode, usedFallback: false };
+    };
+
+    let loginRestored = false;
+    if (savedAuth) {
+      loginRestored = (await checkLoginSuccess(session.page, config.loginCheck)).ok;
+      if (loginRestored) {
+        log.login('Reusing saved login session');
+        login = { status: 'restored', url: session.page.url(), failedChecks: [] };
+      } else {
+        log.login('Saved login session is no longer valid — replaying the login steps');
+        await session.clearAuthState();
+        await session.page.goto(plan.url, {
+          timeout: TIMEOUTS.NAVIGATION_TIMEOUT,
+          waitUntil: 'domcontentloaded',
+        });
+      }
+    }
+
+    if (loginSteps.length > 0 && !loginRestored) {
+      try {
+        log.section('Login Flow (replay)');
+        for (let i = 0; i < loginSteps.length; i++) {
+          const loginStep = loginSteps[i]!;
+          log.step(i, loginSteps.length, loginStep.description);
+          const result = await session.executeStep(loginStep, i);
+          if (!result.success) {
+            log.error(`Login step failed: ${loginStep.description}`);
+            throw new Error(`Login step ${String(i + 1)} failed: ${loginStep.description}`);
+          }
+        }
+        log.login('Login flow complete');
+
+        const check = await checkLoginSuccess(session.page, config.loginCheck);
+        if (!check.ok) {
+          throw new LoginError(
+            `Login success check failed: ${check.failures.join('; ')}`,
+            check.failures,
+          );
+        }
+        log.login('Login verified');
+
+        if (config.authState) {
+          await saveAuthState(config.authState, plan.url, await session.storageState())
+            .catch((err: unknown) => {
+              log.warn(`Could not save login session: ${err instanceof Error ? err.message : String(err)}`);
+            });
+        }
+        login = { status: 'succeeded', url: session.page.url(), failedChecks: [] };
+      } catch (loginErr) {
+        // Never test unauthenticated — stop with a structured login failure
+        const loginMessage = loginErr instanceof Error ? loginErr.message : String(loginErr);
+        log.error(`Login flow failed: ${loginMessage}`);
+        const failure = loginErr instanceof LoginError ? loginErr : new LoginError(loginMessage);
+
+        const screenshotPath = path.join(screenshotDir, 'login-failure.png');
+        let captured = false;
+        try {
+          await session.page.screenshot({ path: screenshotPath, fullPage: true });
+          captured = true;
+        } catch {
+          // Browser may be in a bad state — nothing we can do
+        }
+
+        login = {
+          status: 'failed',
+          url: session.page.url(),
+          reason: loginMessage,
+          failedChecks: [...failure.failedChecks],
+          ...(captured ? { screenshotPath } : {}),
+        };
+        return stopEarly(
+          {
+            stepIndex: 0,
+            description: `Login failed: ${loginMessage}`,
+            severity: 'critical',
+            evidence: [...failure.failedChecks],
+          },
+          failure.exitCode,
+        );
+      }
+    }
+
+    // ── 2. Recorded test steps ────────────────────────────
+
+    log.section('Execution (replay)');
+    const results: StepExecutionResult[] = [];
+    let steps: Step[] = [...plan.steps];
+    let usedFallback = false;
+    let plannerExitCode: number | undefined;
+
+    for (let i = 0; i < steps.length; i++) {
+      if (Date.now() > deadline) {
+        log.warn('Timeout reached — stopping replay');
+        break;
+      }
+
+      const step = steps[i]!;
+      log.step(i, steps.length, step.description);
+
+      let result = await session.executeStep(step, i);
+
+      if (!result.success && config.fallbackClient && !usedFallback) {
+        log.warn(`Replayed step ${String(i + 1)} failed — asking the planner for the remaining steps`);
+        usedFallback = true;
+
+        try {
+          const replanned = await replanFrom(
+            withUsageTracking(config.fallbackClient, usage, 'planner'),
+            session.page,
+            withVariableHints(plan.prompt, config.variables),
+            steps.slice(0, i),
+          );
+          steps = [...steps.slice(0, i), ...replanned];
+          log.info(`Planner returned ${String(replanned.length)} replacement steps`);
+
+          const healedStep = steps[i]!;
+          log.step(i, steps.length, healedStep.description);
+          result = await session.executeStep(healedStep, i);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          log.error(`Fallback planning failed: ${message}`);
+          plannerExitCode = err instanceof PlannerError ? err.exitCode : undefined;
+        }
+      }
+
+      log.stepResult(i, steps.length, result.success, result.step.description);
+      results.push(result);
+      await writeStepArtifact(config.outputDir, i, result).catch(() => {});
+
+      if (!result.success) break;
+    }
+
+    if (usedFallback && plannerExitCode === undefined) {
+      await writePlanFile(config.outputDir, {
+        source: 'replay',
+        url: plan.url,
+        prompt: plan.prompt,
+        ...(plan.loginSteps !== undefined ? { loginSteps: plan.loginSteps } : {}),
+        steps,
+      }).catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        log.warn(`Could not write plan file: ${message}`);
+      });
+    }
+
+    // ── 3. Deterministic summary ──────────────────────────
+
+    const verdict: EvaluationVerdict = computeSummaryVerdict(results);
+    const bugs = extractBugs(results);
+    const finishedAt = new Date();
+
+    log.section('Summary');
+    const durationSec = ((finishedAt.getTime() - startedAt.getTime()) / 1000).toFixed(1);
+    log.info(`Verdict: ${verdict} (${String(results.length)} steps, ${durationSec}s)`);
+    if (bugs.length > 0) {
+      log.warn(`${String(bugs.length)} bug(s) found`);
+    }
+
+    const summary: RunSummary = {
+      runId,
+      url: plan.url,
+      prompt: plan.prompt,
+      summary: verdict,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      steps: results,
+      bugs,
+      usage: usage.snapshot(),
+      ...(config.environment !== undefined ? { environment: config.environment } : {}),
+      ...(config.role !== undefined ? { role: config.role } : {}),
+      ...(login !== undefined ? { login } : {}),
+    };
+
+    const exitCode = plannerExitCode
+      ?? (verdict === 'PASS' ? 0 : verdict === 'FAIL' ? 1 : 2);
+
+    const jsonOutput = generateJSON(summary, exitCode);
+    const summaryPath = path.join(config.outputDir, 'summary.json');
+    await writeFile(summaryPath, serializeJSON(jsonOutput) + '\n', 'utf-8').catch(
+      () => {},
+    );
+
+    return { summary, exitCode, usedFallback };
+  } finally {
+    await session.close();
+  }
+}
+
+// ── Fallback planning ────────────────────────────────────────
+
+async function replanFrom(
+  client: LLMClient,
+  page: Page,
+  prompt: string,
+  completed: readonly Step[],
+): Promise<Step[]> {
+  const snapshot = await prescanCurrentPage(page);
+
+  let screenshotBase64: string | undefined;
+  try {
+    const buf = await page.screenshot({ type: 'png' });
+    screenshotBase64 = buf.toString('base64');
+  } catch {
+    // Non-fatal — planner falls back to DOM-only mode
+  }
+
+  const done = completed
+    .map((s, i) => `${String(i + 1)}. [${s.type}] ${s.description}`)
+    .join('\n');
+  const continuation = completed.length > 0
+    ? `${prompt}\n\nThese steps were already completed — continue from the current page and do NOT repeat them:\n${done}`
+    : prompt;
+
+  // The planner requires a leading goto; pointing it at the current
+  // URL makes the runner skip the navigation and keep page state.
+  const steps = await planSteps(client, {
+    prompt: continuation,
+    baseUrl: page.url(),
+    snapshot,
+    screenshotBase64,
+  });
+
+  return steps;
+}
@@ -1,6 +1,6 @@
 import Anthropic from '@anthropic-ai/sdk';
 
-import type { LLMClient } from './client.js';
+import type { GenerateOptions, LLMClient } from './client.js';
 
 // ── Constants ────────────────────────────────────────────────
 
@@ -44,7 +44,12 @@ export function createAnthropicClient(
   const client = new Anthropic({ apiKey });
 
   return {
-    async generate(systemPrompt: string, userPrompt: string): Promise<string> {
+    async generate(
+      systemPrompt: string,
+      userPrompt: string,
+      options?: GenerateOptions,
+    ): Promise<string> {
+      const started = Date.now();
       const response = await withRetry(() =>
         client.messages.create({
           model: resolvedModel,
@@ -55,6 +60,14 @@ export function createAnthropicClient(
         }),
       );
 
+      options?.onUsage?.({
+        model: resolvedModel,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        images: 0,
+        latencyMs: Date.now() - started,
+      });
+
       const firstBlock = response.content[0];
       if (!firstBlock || firstBlock.type !== 'text') {
         throw new Error('Anthropic API returned no text content');
@@ -68,7 +81,9 @@ export function createAnthropicClient(
       userPrompt: string,
       imageBase64: string,
       mimeType: string,
+      options?: GenerateOptions,
     ): Promise<string> {
+      const started = Date.now();
       const response = await withRetry(() =>
         client.messages.create({
           model: resolvedModel,
@@ -97,6 +112,14 @@ export function createAnthropicClient(
         }),
       );
 
+      options?.onUsage?.({
+        model: resolvedModel,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        images: 1,
+        latencyMs: Date.now() - started,
+      });
+
       const firstBlock = response.content[0];
       if (!firstBlock || firstBlock.type !== 'text') {
         throw new Error('Anthropic API returned no text content');
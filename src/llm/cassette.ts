@@ -0,0 +1,267 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import type { GenerateOptions, LLMClient, LLMUsage } from './client.js';
+
+// ── Cassette file ────────────────────────────────────────────
+
+const CASSETTE_VERSION = 1;
+
+const cassetteEntrySchema = z.object({
+  key: z.string().min(1),
+  /** Start of the user prompt — lets a human find the call in the file. */
+  prompt: z.string(),
+  response: z.string(),
+  usage: z
+    .object({
+      model: z.string(),
+      inputTokens: z.number().int().nonnegative(),
+      outputTokens: z.number().int().nonnegative(),
+      images: z.number().int().nonnegative(),
+      latencyMs: z.number().nonnegative(),
+    })
+    .optional(),
+});
+
+type CassetteEntry = z.infer<typeof cassetteEntrySchema>;
+
+const cassetteFileSchema = z.object({
+  version: z.literal(CASSETTE_VERSION),
+  /**
+   * Whether the recording client accepted screenshots. Callers send
+   * them only when the client can, which changes every request key.
+   * Absent in older cassettes, which were recorded with vision.
+   */
+  vision: z.boolean().optional(),
+  entries: z.array(cassetteEntrySchema),
+});
+
+// ── Public types ─────────────────────────────────────────────
+
+export type CassetteOptions =
+  | { mode: 'record'; path: string; inner: LLMClient }
+  | { mode: 'replay'; path: string };
+
+// ── Error ────────────────────────────────────────────────────
+
+export class CassetteMissError extends Error {
+  constructor(
+    readonly key: string,
+    cassettePath: string,
+    userPrompt: string,
+  ) {
+    super(
+      `No recorded response in ${cassettePath} for request ${key.slice(0, 12)} ` +
+        `("${userPrompt.slice(0, 60)}") — re-record with LLM_CASSETTE_MODE=record`,
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+// ── Request key ──────────────────────────────────────────────
+
+/**
+ * Identify a call by everything the model sees. Images are reduced to
+ * a digest so the key stays short.
+ */
+export function cassetteKey(
+  systemPrompt: string,
+  userPrompt: string,
+  imageBase64?: string,
+): string {
+  const imageDigest = imageBase64 !== undefined ? sha256(imageBase64) : '';
+  return sha256(JSON.stringify([systemPrompt, userPrompt, imageDigest]));
+}
+
+// ── Provider factory ─────────────────────────────────────────
+
+/**
+ * Record/replay LLM provider.
+ * Record mode calls `inner` and appends every request key + response
+ * to the cassette file. Replay mode serves them back without network,
+ * in recorded order per key, and fails on any request it has not seen.
+ * The player accepts screenshots only if the recording client did, so
+ * callers build the same requests as when they were recorded — which
+ * is why replay reads the cassette as soon as the client is created.
+ */
+export function createCassetteClient(options: CassetteOptions): LLMClient {
+  return options.mode === 'record'
+    ? createRecorder(options.path, options.inner)
+    : createPlayer(options.path);
+}
+
+// ── Replay ───────────────────────────────────────────────────
+
+function createPlayer(cassettePath: string): LLMClient {
+  const { vision, queues } = loadCassette(cassettePath);
+
+  async function play(
+    key: string,
+    userPrompt: string,
+    images: number,
+    options?: GenerateOptions,
+  ): Promise<string> {
+    const entry = queues.get(key)?.shift();
+    if (!entry) {
+      throw new CassetteMissError(key, cassettePath, userPrompt);
+    }
+
+    // Replay the recorded usage so cost reports and budgets match the original run
+    options?.onUsage?.(
+      entry.usage ?? {
+        model: 'cassette',
+        inputTokens: 0,
+        outputTokens: 0,
+        images,
+        latencyMs: 0,
+      },
+    );
+    return entry.response;
+  }
+
+  return {
+    async generate(
+      systemPrompt: string,
+      userPrompt: string,
+      options?: GenerateOptions,
+    ): Promise<string> {
+      return play(cassetteKey(systemPrompt, userPrompt), userPrompt, 0, options);
+    },
+
+    ...(vision
+      ? {
+        async generateWithImage(
+          systemPrompt: string,
+          userPrompt: string,
+          imageBase64: string,
+          _mimeType: string,
+          options?: GenerateOptions,
+        ): Promise<string> {
+          return play(cassetteKey(systemPrompt, userPrompt, imageBase64), userPrompt, 1, options);
+        },
+      }
+      : {}),
+  };
+}
+
+interface LoadedCassette {
+  vision: boolean;
+  /** Request key → recorded entries not yet served. */
+  queues: Map<string, CassetteEntry[]>;
+}
+
+function loadCassette(cassettePath: string): LoadedCassette {
+  let raw: string;
+  try {
+    raw = readFileSync(cassettePath, 'utf-8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Cannot read cassette ${cassettePath}: ${message}`);
+  }
+
+  const file = cassetteFileSchema.parse(JSON.parse(raw));
+  const queues = new Map<string, CassetteEntry[]>();
+  for (const entry of file.entries) {
+    const queue = queues.get(entry.key) ?? [];
+    queue.push(entry);
+    queues.set(entry.key, queue);
+  }
+  return { vision: file.vision ?? true, queues };
+}
+
+// ── Record ───────────────────────────────────────────────────
+
+function createRecorder(cassettePath: string, inner: LLMClient): LLMClient {
+  const entries: CassetteEntry[] = [];
+  const innerWithImage = inner.generateWithImage?.bind(inner);
+  let saving: Promise<void> = Promise.resolve();
+
+  // Rewrite the whole file after every call so a crashed run still
+  // leaves a usable cassette. Writes are chained to keep parallel
+  // workers from interleaving.
+  function save(): Promise<void> {
+    saving = saving
+      .catch(() => {})
+      .then(async () => {
+        await mkdir(path.dirname(cassettePath), { recursive: true });
+        await writeFile(
+          cassettePath,
+          JSON.stringify(
+            { version: CASSETTE_VERSION, vision: innerWithImage !== undefined, entries },
+            null,
+            2,
+          ) + '\n',
+          'utf-8',
+        );
+      });
+    return saving;
+  }
+
+  async function record(
+    key: string,
+    userPrompt: string,
+    call: (options: GenerateOptions) => Promise<string>,
+    options?: GenerateOptions,
+  ): Promise<string> {
+    let usage = undefined as LLMUsage | undefined;
+    const response = await call({
+      onUsage: (u) => {
+        usage = u;
+        options?.onUsage?.(u);
+      },
+    });
+
+    entries.push({
+      key,
+      prompt: userPrompt.slice(0, 200),
+      response,
+      ...(usage !== undefined ? { usage } : {}),
+    });
+    await save();
+    return response;
+  }
+
+  return {
+    async generate(
+      systemPrompt: string,
+      userPrompt: string,
+      options?: GenerateOptions,
+    ): Promise<string> {
+      return record(
+        cassetteKey(systemPrompt, userPrompt),
+        userPrompt,
+        (opts) => inner.generate(systemPrompt, userPrompt, opts),
+        options,
+      );
+    },
+
+    ...(innerWithImage
+      ? {
+        async generateWithImage(
+          systemPrompt: string,
+          userPrompt: string,
+          imageBase64: string,
+          mimeType: string,
+          options?: GenerateOptions,
+        ): Promise<string> {
+          return record(
+            cassetteKey(systemPrompt, userPrompt, imageBase64),
+            userPrompt,
+            (opts) => innerWithImage(systemPrompt, userPrompt, imageBase64, mimeType, opts),
+            options,
+          );
+        },
+      }
+      : {}),
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
@@ -1,47 +1,110 @@
 import { z } from 'zod';
 
+// ── Usage reporting ──────────────────────────────────────────
+
+/** Token usage and latency of a single LLM call. */
+export interface LLMUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+}
+
+export interface GenerateOptions {
+  /** Called once per completed call with the provider-reported usage. */
+  onUsage?: ((usage: LLMUsage) => void) | undefined;
+}
+
 // ── LLMClient interface ──────────────────────────────────────
 
 export interface LLMClient {
-  generate(systemPrompt: string, userPrompt: string): Promise<string>;
+  generate(
+    systemPrompt: string,
+    userPrompt: string,
+    options?: GenerateOptions,
+  ): Promise<string>;
   generateWithImage?(
     systemPrompt: string,
     userPrompt: string,
     imageBase64: string,
     mimeType: string,
+    options?: GenerateOptions,
   ): Promise<string>;
 }
 
 // ── Config schema ────────────────────────────────────────────
 
-export const llmProviderSchema = z.enum(['anthropic', 'openai', 'mock']);
+export const llmProviderSchema = z.enum(['anthropic', 'openai', 'local', 'mock', 'cassette']);
 
 export type LLMProvider = z.infer<typeof llmProviderSchema>;
 
+export const cassetteConfigSchema = z.object({
+  path: z.string().min(1),
+  mode: z.enum(['record', 'replay']),
+  /** Real provider called through while recording. */
+  recordProvider: z.enum(['anthropic', 'openai', 'local']),
+});
+
+export type CassetteConfig = z.infer<typeof cassetteConfigSchema>;
+
 export const llmConfigSchema = z.object({
   provider: llmProviderSchema,
   apiKey: z.string().min(1).optional(),
   model: z.string().min(1).optional(),
+  /** OpenAI-compatible server root, e.g. http://localhost:11434/v1. */
+  baseUrl: z.string().url().optional(),
+  /** Whether screenshots are sent to the model (openai/local). */
+  vision: z.boolean().optional(),
+  /** Only used by the cassette provider. */
+  cassette: cassetteConfigSchema.optional(),
 });
 
 export type LLMConfig = z.infer<typeof llmConfigSchema>;
 
 // ── Env loader ───────────────────────────────────────────────
 
-export function loadLLMConfig(): LLMConfig {
-  const provider = process.env['LLM_PROVIDER'] ?? 'anthropic';
+export const DEFAULT_CASSETTE_PATH = '.promptqa/cassette.json';
+
+/**
+ * Read provider settings from the environment. Pass `provider` when it
+ * was chosen elsewhere (e.g. .promptqa.yaml) so the matching API key
+ * is picked up.
+ */
+export function loadLLMConfig(
+  provider: string = process.env['LLM_PROVIDER'] ?? 'anthropic',
+): LLMConfig {
+  // The cassette records through a real provider — use its key and model
+  const cassette = provider === 'cassette'
+    ? {
+      path: process.env['LLM_CASSETTE'] ?? DEFAULT_CASSETTE_PATH,
+      mode: process.env['LLM_CASSETTE_MODE'] ?? 'replay',
+      recordProvider: process.env['LLM_CASSETTE_PROVIDER'] ?? 'anthropic',
+    }
+    : undefined;
+  const keyProvider = cassette?.recordProvider ?? provider;
 
-  const apiKey = provider === 'anthropic'
+  const apiKey = keyProvider === 'anthropic'
     ? process.env['ANTHROPIC_API_KEY']
-    : process.env['OPENAI_API_KEY'];
+    : keyProvider === 'local'
+      ? process.env['LLM_API_KEY']
+      : process.env['OPENAI_API_KEY'];
 
-  const model = provider === 'anthropic'
+  const model = keyProvider === 'anthropic'
     ? process.env['PROMPTQA_MODEL']
     : process.env['LLM_MODEL'];
 
+  const visionEnv = process.env['LLM_VISION'];
+  const vision = visionEnv !== undefined
+    ? !['false', '0', 'no'].includes(visionEnv.toLowerCase())
+    : undefined;
+
   return llmConfigSchema.parse({
     provider,
     apiKey,
     model,
+    baseUrl: process.env['LLM_BASE_URL'],
+    vision,
+    cassette,
   });
 }
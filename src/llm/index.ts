@@ -5,14 +5,26 @@
  */
 
 import type { LLMClient, LLMConfig } from './client.js';
+import { DEFAULT_CASSETTE_PATH } from './client.js';
 import { createAnthropicClient } from './anthropic.js';
-import { createOpenAIClient } from './openai.js';
+import { createOpenAIClient, DEFAULT_LOCAL_BASE_URL } from './openai.js';
 import { createMockClient } from './mock.js';
+import { createCassetteClient } from './cassette.js';
 
 export * from './client.js';
 export { createAnthropicClient } from './anthropic.js';
-export { createOpenAIClient } from './openai.js';
+export { createOpenAIClient, DEFAULT_LOCAL_BASE_URL } from './openai.js';
+export type { OpenAIClientOptions } from './openai.js';
 export { createMockClient } from './mock.js';
+export { createCassetteClient, cassetteKey, CassetteMissError } from './cassette.js';
+export type { CassetteOptions } from './cassette.js';
+export {
+  createUsageTracker,
+  withUsageTracking,
+  estimateCost,
+  BudgetExceededError,
+} from './usage.js';
+export type { UsageTracker, UsageTrackerOptions, BudgetScope } from './usage.js';
 
 // ── Provider factory ─────────────────────────────────────────
 
@@ -32,9 +44,40 @@ export function createLLMClient(config: LLMConfig): LLMClient {
           'OPENAI_API_KEY is required when using the openai provider',
         );
       }
-      return createOpenAIClient(config.apiKey, config.model);
+      return createOpenAIClient(config.apiKey, config.model, {
+        baseUrl: config.baseUrl,
+        vision: config.vision,
+      });
+    }
+    case 'local': {
+      if (!config.model) {
+        throw new Error(
+          'LLM_MODEL is required when using the local provider',
+        );
+      }
+      // Most self-hosted models are text-only — vision is opt-in
+      return createOpenAIClient(config.apiKey, config.model, {
+        baseUrl: config.baseUrl ?? DEFAULT_LOCAL_BASE_URL,
+        vision: config.vision ?? false,
+      });
     }
     case 'mock':
       return createMockClient();
+    case 'cassette': {
+      // Selected via config file rather than env — replay the default cassette
+      const { path, mode, recordProvider } = config.cassette ?? {
+        path: DEFAULT_CASSETTE_PATH,
+        mode: 'replay',
+        recordProvider: 'anthropic',
+      };
+      if (mode === 'replay') {
+        return createCassetteClient({ mode, path });
+      }
+      return createCassetteClient({
+        mode,
+        path,
+        inner: createLLMClient({ ...config, provider: recordProvider }),
+      });
+    }
   }
 }
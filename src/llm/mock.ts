@@ -1,4 +1,4 @@
-import type { LLMClient } from './client.js';
+import type { GenerateOptions, LLMClient } from './client.js';
 
 const DEFAULT_RESPONSE = '{"result":"mock"}';
 
@@ -15,9 +15,17 @@ export function createMockClient(
     async generate(
       _systemPrompt: string,
       _userPrompt: string,
+      options?: GenerateOptions,
     ): Promise<string> {
       const response = responses?.[callIndex] ?? DEFAULT_RESPONSE;
       callIndex++;
+      options?.onUsage?.({
+        model: 'mock',
+        inputTokens: 0,
+        outputTokens: 0,
+        images: 0,
+        latencyMs: 0,
+      });
       return response;
     },
 
@@ -26,9 +34,10 @@ export function createMockClient(
       userPrompt: string,
       _imageBase64: string,
       _mimeType: string,
+      options?: GenerateOptions,
     ): Promise<string> {
       // Vision calls use the same canned response queue
-      return this.generate(systemPrompt, userPrompt);
+      return this.generate(systemPrompt, userPrompt, options);
     },
   };
 }
@@ -1,11 +1,14 @@
 import { z } from 'zod';
 
-import type { LLMClient } from './client.js';
+import type { GenerateOptions, LLMClient, LLMUsage } from './client.js';
 
 // ── Constants ────────────────────────────────────────────────
 
 const DEFAULT_MODEL = 'gpt-4o-mini';
-const COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/** Ollama's OpenAI-compatible endpoint — the usual self-hosted default. */
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
 
 // ── Response validation ──────────────────────────────────────
 
@@ -19,8 +22,31 @@ const chatResponseSchema = z.object({
       }),
     )
     .nonempty(),
+  usage: z
+    .object({
+      prompt_tokens: z.number().int().nonnegative(),
+      completion_tokens: z.number().int().nonnegative(),
+    })
+    .optional(),
 });
 
+type ChatResponse = z.infer<typeof chatResponseSchema>;
+
+function toUsage(
+  parsed: ChatResponse,
+  model: string,
+  images: number,
+  started: number,
+): LLMUsage {
+  return {
+    model,
+    inputTokens: parsed.usage?.prompt_tokens ?? 0,
+    outputTokens: parsed.usage?.completion_tokens ?? 0,
+    images,
+    latencyMs: Date.now() - started,
+  };
+}
+
 // ── Rate-limit-aware fetch ───────────────────────────────────
 
 const MAX_RETRIES = 3;
@@ -59,20 +85,39 @@ async function fetchWithRetry(
 
 // ── Provider factory ─────────────────────────────────────────
 
+export interface OpenAIClientOptions {
+  /** Any OpenAI-compatible server, e.g. Ollama, llama.cpp or vLLM. */
+  baseUrl?: string | undefined;
+  /** Send screenshots as image parts. Disable for text-only models. */
+  vision?: boolean | undefined;
+}
+
+/**
+ * OpenAI chat completions provider. Without an API key no
+ * Authorization header is sent, which local servers accept.
+ */
 export function createOpenAIClient(
-  apiKey: string,
+  apiKey: string | undefined,
   model?: string,
+  options: OpenAIClientOptions = {},
 ): LLMClient {
   const resolvedModel = model ?? DEFAULT_MODEL;
+  const completionsUrl = `${(options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(apiKey !== undefined ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
 
-  return {
-    async generate(systemPrompt: string, userPrompt: string): Promise<string> {
-      const response = await fetchWithRetry(COMPLETIONS_URL, {
+  const client: LLMClient = {
+    async generate(
+      systemPrompt: string,
+      userPrompt: string,
+      options?: GenerateOptions,
+    ): Promise<string> {
+      const started = Date.now();
+      const response = await fetchWithRetry(completionsUrl, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
+        headers,
         body: JSON.stringify({
           model: resolvedModel,
           messages: [
@@ -86,6 +131,7 @@ export function createOpenAIClient(
       const raw = await response.text();
       const body: unknown = JSON.parse(raw);
       const parsed = chatResponseSchema.parse(body);
+      options?.onUsage?.(toUsage(parsed, resolvedModel, 0, started));
 
       return parsed.choices[0].message.content;
     },
@@ -95,15 +141,14 @@ export function createOpenAIClient(
       userPrompt: string,
       imageBase64: string,
       mimeType: string,
+      options?: GenerateOptions,
     ): Promise<string> {
+      const started = Date.now();
       const dataUri = `data:${mimeType};base64,${imageBase64}`;
 
-      const response = await fetchWithRetry(COMPLETIONS_URL, {
+      const response = await fetchWithRetry(completionsUrl, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
+        headers,
         body: JSON.stringify({
           model: resolvedModel,
           messages: [
@@ -129,8 +174,15 @@ export function createOpenAIClient(
       const raw = await response.text();
       const body: unknown = JSON.parse(raw);
       const parsed = chatResponseSchema.parse(body);
+      options?.onUsage?.(toUsage(parsed, resolvedModel, 1, started));
 
       return parsed.choices[0].message.content;
     },
   };
+
+  // Without generateWithImage, callers fall back to DOM-only prompts
+  if (options.vision === false) {
+    return { generate: client.generate.bind(client) };
+  }
+  return client;
 }
@@ -0,0 +1,209 @@
+import type {
+  BudgetLimits,
+  ModelPrice,
+  PriceTable,
+  RunUsage,
+  UsagePhase,
+  UsageTotals,
+} from '../schema/index.js';
+import { usagePhaseSchema } from '../schema/index.js';
+import { DEFAULT_PRICING } from '../config/defaults.js';
+import type { GenerateOptions, LLMClient, LLMUsage } from './client.js';
+
+// ── Public interface ─────────────────────────────────────────
+
+export interface UsageTracker {
+  /** Record one completed LLM call under a pipeline phase. */
+  record(phase: UsagePhase, usage: LLMUsage): void;
+  /** Aggregate everything recorded so far. */
+  snapshot(): RunUsage;
+  /** The limit that is already used up, here or in the parent. */
+  checkBudget(): BudgetExceededError | undefined;
+}
+
+export type BudgetScope = 'run' | 'suite';
+
+export interface UsageTrackerOptions {
+  /** Hard limits — calls are refused once any of them is reached. */
+  limits?: BudgetLimits | undefined;
+  /** Which budget `limits` describe, for the stop message. */
+  scope?: BudgetScope | undefined;
+  /** Suite-wide tracker that also receives every recorded call. */
+  parent?: UsageTracker | undefined;
+}
+
+// ── Error ────────────────────────────────────────────────────
+
+export class BudgetExceededError extends Error {
+  readonly exitCode = 5;
+
+  constructor(
+    readonly scope: BudgetScope,
+    readonly limit: keyof BudgetLimits,
+    readonly max: number,
+    readonly used: number,
+  ) {
+    super(`${scope} budget exhausted: ${limit} ${formatLimit(limit, used)} of ${formatLimit(limit, max)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// ── Factory ──────────────────────────────────────────────────
+
+/**
+ * Create a per-run usage accumulator. `pricing` entries are merged
+ * over DEFAULT_PRICING; models without a price contribute tokens but
+ * no estimated cost.
+ */
+export function createUsageTracker(
+  pricing?: PriceTable,
+  options: UsageTrackerOptions = {},
+): UsageTracker {
+  const table: PriceTable = { ...DEFAULT_PRICING, ...pricing };
+  const scope = options.scope ?? 'run';
+  const buckets = new Map<UsagePhase, UsageTotals>();
+  const total = emptyTotals();
+
+  return {
+    record(phase: UsagePhase, usage: LLMUsage): void {
+      const cost = estimateCost(usage, table);
+      const bucket = buckets.get(phase) ?? emptyTotals();
+      addTo(bucket, usage, cost);
+      addTo(total, usage, cost);
+      buckets.set(phase, bucket);
+      options.parent?.record(phase, usage);
+    },
+
+    snapshot(): RunUsage {
+      return {
+        total: { ...total },
+        // Stable pipeline order, not insertion order
+        phases: usagePhaseSchema.options
+          .filter((phase) => buckets.has(phase))
+          .map((phase) => ({ phase, ...buckets.get(phase)! })),
+      };
+    },
+
+    checkBudget(): BudgetExceededError | undefined {
+      const limits = options.limits ?? {};
+      const used: Record<keyof BudgetLimits, number> = {
+        maxTokens: total.inputTokens + total.outputTokens,
+        maxLlmCalls: total.calls,
+        maxCostUsd: total.estimatedCostUsd ?? 0,
+      };
+      for (const limit of ['maxLlmCalls', 'maxTokens', 'maxCostUsd'] as const) {
+        const max = limits[limit];
+        if (max !== undefined && used[limit] >= max) {
+          return new BudgetExceededError(scope, limit, max, used[limit]);
+        }
+      }
+      return options.parent?.checkBudget();
+    },
+  };
+}
+
+// ── Client wrapper ───────────────────────────────────────────
+
+/**
+ * Wrap a client so every call it makes is recorded under `phase`.
+ * Calls are rejected with BudgetExceededError once the tracker's
+ * budget is used up. The wrapper is cheap — create one per phase per run.
+ */
+export function withUsageTracking(
+  client: LLMClient,
+  tracker: UsageTracker,
+  phase: UsagePhase,
+): LLMClient {
+  const track = (options?: GenerateOptions): GenerateOptions => ({
+    onUsage: (usage) => {
+      tracker.record(phase, usage);
+      options?.onUsage?.(usage);
+    },
+  });
+
+  const inner = client.generateWithImage?.bind(client);
+
+  return {
+    generate: async (systemPrompt, userPrompt, options) => {
+      assertWithinBudget(tracker);
+      return client.generate(systemPrompt, userPrompt, track(options));
+    },
+    ...(inner
+      ? {
+        generateWithImage: async (
+          systemPrompt: string,
+          userPrompt: string,
+          imageBase64: string,
+          mimeType: string,
+          options?: GenerateOptions,
+        ) => {
+          assertWithinBudget(tracker);
+          return inner(systemPrompt, userPrompt, imageBase64, mimeType, track(options));
+        },
+      }
+      : {}),
+  };
+}
+
+// ── Cost estimation ──────────────────────────────────────────
+
+/** Estimated USD cost of one call, or undefined if the model is unpriced. */
+export function estimateCost(
+  usage: LLMUsage,
+  table: PriceTable,
+): number | undefined {
+  const price = findPrice(usage.model, table);
+  if (!price) return undefined;
+  return (
+    (usage.inputTokens * price.inputPerMTok +
+      usage.outputTokens * price.outputPerMTok) /
+    1_000_000
+  );
+}
+
+function findPrice(model: string, table: PriceTable): ModelPrice | undefined {
+  const exact = table[model];
+  if (exact) return exact;
+
+  // Longest prefix wins so "gpt-4o-mini" beats "gpt-4o"
+  const key = Object.keys(table)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key !== undefined ? table[key] : undefined;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function assertWithinBudget(tracker: UsageTracker): void {
+  const exceeded = tracker.checkBudget();
+  if (exceeded) throw exceeded;
+}
+
+function formatLimit(limit: keyof BudgetLimits, value: number): string {
+  return limit === 'maxCostUsd' ? `$${value.toFixed(4)}` : String(value);
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    images: 0,
+    latencyMs: 0,
+  };
+}
+
+function addTo(
+  totals: UsageTotals,
+  usage: LLMUsage,
+  cost: number | undefined,
+): void {
+  totals.calls++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.images += usage.images;
+  totals.latencyMs += Math.round(usage.latencyMs);
+  if (cost !== undefined) {
+    totals.estimatedCostUsd = (totals.estimatedCostUsd ?? 0) + cost;
+  }
+}
@@ -0,0 +1,341 @@
+import type {
+  ScrollStep,
+  SelectorHint,
+  Step,
+  StepExecutionResult,
+} from '../schema/index.js';
+import { LIMITS, TIMEOUTS } from '../config/defaults.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface SpecExportInput {
+  /** Title passed to `test(...)`. */
+  title: string;
+  prompt?: string | undefined;
+  runId?: string | undefined;
+  loginSteps?: readonly Step[] | undefined;
+  steps: readonly Step[];
+}
+
+// ── Step extraction ──────────────────────────────────────────
+
+/**
+ * Turn executed results into exportable steps.
+ * Failed steps are dropped and healed selectors are replaced with
+ * the selector that actually matched, so the spec reproduces the
+ * flow that worked rather than the one that was first guessed.
+ * When a step opened or closed a tab, an explicit `switch_tab` to the
+ * tab the runner ended up on follows it — the runner switched on its
+ * own, Playwright does not.
+ */
+export function stepsFromResults(
+  results: readonly StepExecutionResult[],
+): Step[] {
+  return [...results]
+    .sort((a, b) => a.stepIndex - b.stepIndex)
+    .filter((r) => r.success)
+    .flatMap((r) => {
+      let step = r.step;
+      for (const { field, matched } of r.selectorResolutions ?? []) {
+        if (field in step) step = { ...step, [field]: matched } as Step;
+      }
+      if (r.step.type === 'close_tab') {
+        // activeTab is only recorded while several tabs are open
+        return [step, {
+          type: 'switch_tab',
+          description: 'Switch to the tab left active after closing',
+          value: String(r.activeTab ?? 0),
+        } satisfies Step];
+      }
+      if (r.openedTabs === undefined || r.activeTab === undefined) return [step];
+      return [step, {
+        type: 'switch_tab',
+        description: 'Switch to the tab opened by the previous step',
+        value: String(r.activeTab),
+      } satisfies Step];
+    });
+}
+
+// ── Spec generator ───────────────────────────────────────────
+
+/**
+ * Render a `@playwright/test` spec file. Selector mapping mirrors
+ * `resolveSelector` so the exported test locates the same elements
+ * the runner did.
+ */
+export function generatePlaywrightSpec(input: SpecExportInput): string {
+  const lines: string[] = [];
+
+  lines.push(`import { test, expect } from '@playwright/test';`);
+  lines.push('');
+  lines.push(`// Generated by promptqa export${input.runId ? ` from run ${input.runId}` : ''}.`);
+  if (input.prompt) {
+    lines.push(`// Prompt: ${input.prompt.replace(/\n/g, ' ')}`);
+  }
+  lines.push('');
+  const loginSteps = input.loginSteps ?? [];
+  const usesTabs = [...loginSteps, ...input.steps]
+    .some((step) => step.type === 'switch_tab' || step.type === 'close_tab');
+  lines.push(`test(${quote(input.title)}, async ({ ${usesTabs ? 'page, context' : 'page'} }) => {`);
+
+  if (loginSteps.length > 0) {
+    lines.push(`  // ── Login ──`);
+    for (const step of loginSteps) {
+      lines.push(...renderStep(step).map((l) => `  ${l}`));
+    }
+    lines.push('');
+    lines.push(`  // ── Test ──`);
+  }
+
+  for (const step of input.steps) {
+    lines.push(...renderStep(step).map((l) => `  ${l}`));
+  }
+
+  lines.push(`});`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+// ── Step rendering ───────────────────────────────────────────
+
+function renderStep(step: Step): string[] {
+  const comment = `// ${step.description.replace(/\n/g, ' ')}`;
+  const opts = step.timeout !== undefined
+    ? `{ timeout: ${String(step.timeout)} }`
+    : '';
+
+  switch (step.type) {
+    case 'goto':
+      return [comment, `await page.goto(${valueExpr(step.value)});`];
+
+    case 'click':
+      return [comment, `await ${locatorFor(step.selector)}.click(${opts});`];
+
+    case 'type':
+      return [comment, `await ${locatorFor(step.selector)}.fill(${args(valueExpr(step.value), opts)});`];
+
+    case 'select':
+      return [comment, `await ${locatorFor(step.selector)}.selectOption(${args(valueExpr(step.value), opts)});`];
+
+    case 'upload':
+      return [comment, `await ${locatorFor(step.selector)}.setInputFiles(${args(valueExpr(step.value), opts)});`];
+
+    case 'wait':
+      if (step.selector) {
+        return [comment, `await expect(${locatorFor(step.selector)}).toBeVisible(${opts});`];
+      }
+      if (step.value !== undefined && !Number.isNaN(Number(step.value))) {
+        return [comment, `await page.waitForTimeout(${String(Number(step.value))});`];
+      }
+      return [comment];
+
+    case 'expect_text': {
+      const target = step.selector
+        ? locatorFor(step.selector)
+        : `page.locator('body')`;
+      return [comment, `await expect(${target}).toContainText(${args(valueExpr(step.value), opts)});`];
+    }
+
+    case 'press_key':
+      return [comment, `await page.keyboard.press(${valueExpr(step.value)});`];
+
+    case 'hover':
+      return [comment, `await ${locatorFor(step.selector)}.hover(${opts});`];
+
+    case 'dblclick':
+      return [comment, `await ${locatorFor(step.selector)}.dblclick(${opts});`];
+
+    case 'right_click':
+      return [comment, `await ${locatorFor(step.selector)}.click(${args(`{ button: 'right' }`, opts)});`];
+
+    case 'drag':
+      return [comment, `await ${locatorFor(step.source)}.dragTo(${args(locatorFor(step.target), opts)});`];
+
+    case 'scroll':
+      return [comment, ...renderScroll(step)];
+
+    case 'expect_url':
+      return [comment, `await expect(page).toHaveURL(${args(`new RegExp(${valueExpr(step.value)})`, opts)});`];
+
+    case 'expect_title':
+      return [comment, `await expect(page).toHaveTitle(${args(`new RegExp(${valueExpr(step.value, escapeRegExp)})`, opts)});`];
+
+    case 'expect_visible':
+      return [comment, `await expect(${locatorFor(step.selector)}.first()).toBeVisible(${opts});`];
+
+    case 'expect_hidden':
+      return [comment, `await expect(${locatorFor(step.selector)}).toBeHidden(${opts});`];
+
+    case 'expect_count':
+      return [comment, `await expect(${locatorFor(step.selector)}).toHaveCount(${args(String(step.count), opts)});`];
+
+    case 'expect_attribute': {
+      const expected = step.value !== undefined
+        ? `${quote(step.attribute)}, ${valueExpr(step.value)}`
+        : quote(step.attribute);
+      return [comment, `await expect(${locatorFor(step.selector)}.first()).toHaveAttribute(${args(expected, opts)});`];
+    }
+
+    case 'expect_value':
+      return [comment, `await expect(${locatorFor(step.selector)}.first()).toHaveValue(${args(valueExpr(step.value), opts)});`];
+
+    case 'expect_enabled':
+      return [comment, `await expect(${locatorFor(step.selector)}.first()).toBeEnabled(${opts});`];
+
+    case 'expect_disabled':
+      return [comment, `await expect(${locatorFor(step.selector)}.first()).toBeDisabled(${opts});`];
+
+    case 'switch_tab': {
+      // Same matching as the runner: a tab number, or part of the URL
+      const find = /^\d+$/.test(step.value)
+        ? `context.pages()[${step.value}]`
+        : `context.pages().find((p) => p.url().includes(${quote(step.value)}))`;
+      return [
+        comment,
+        `await expect.poll(() => ${find} !== undefined).toBe(true);`,
+        `page = ${find}!;`,
+        `await page.bringToFront();`,
+      ];
+    }
+
+    case 'close_tab':
+      return [comment, `await page.close();`, `page = context.pages().at(-1)!;`, `await page.bringToFront();`];
+  }
+}
+
+/**
+ * Scrolls use `scrollBy` rather than the mouse wheel so the spec does
+ * not depend on where the pointer is. `until` steps become bounded
+ * loops with the runner's limits.
+ */
+function renderScroll(step: ScrollStep): string[] {
+  const scroll = `await ${scrollCall(step)};`;
+  const settle = `await page.waitForTimeout(${String(TIMEOUTS.SCROLL_SETTLE)});`;
+  const limit = String(LIMITS.MAX_SCROLLS);
+
+  if (step.until === undefined) return [scroll];
+
+  if (step.until === 'end') {
+    const measure = step.selector
+      ? `${locatorFor(step.selector)}.evaluate((el) => [el.scrollTop, el.scrollLeft, el.scrollHeight, el.scrollWidth].join())`
+      : `page.evaluate(() => [window.scrollY, window.scrollX, document.documentElement.scrollHeight].join())`;
+    return [
+      `for (let i = 0; i < ${limit}; i++) {`,
+      `  const before = await ${measure};`,
+      `  ${scroll}`,
+      `  ${settle}`,
+      `  if ((await ${measure}) === before) break;`,
+      `}`,
+    ];
+  }
+
+  const target = `${locatorFor(step.until)}.first()`;
+  return [
+    `for (let i = 0; i < ${limit} && !(await ${target}.isVisible()); i++) {`,
+    `  ${scroll}`,
+    `  ${settle}`,
+    `}`,
+    `await ${target}.scrollIntoViewIfNeeded();`,
+  ];
+}
+
+function scrollCall(step: ScrollStep): string {
+  const direction = step.direction ?? 'down';
+  const horizontal = direction === 'left' || direction === 'right';
+  const sign = direction === 'up' || direction === 'left' ? '-' : '';
+  const size = step.selector
+    ? (horizontal ? 'el.clientWidth' : 'el.clientHeight')
+    : (horizontal ? 'window.innerWidth' : 'window.innerHeight');
+  const delta = `${sign}${step.amount !== undefined ? String(step.amount) : `${size} * 0.8`}`;
+  const by = horizontal ? `${delta}, 0` : `0, ${delta}`;
+
+  return step.selector
+    ? `${locatorFor(step.selector)}.evaluate((el) => el.scrollBy(${by}))`
+    : `page.evaluate(() => window.scrollBy(${by}))`;
+}
+
+function locatorFor(hint: SelectorHint): string {
+  switch (hint.strategy) {
+    case 'testid':
+      return `page.getByTestId(${quote(hint.value)})`;
+
+    case 'role': {
+      const role = hint.role ?? hint.value;
+      return hint.name
+        ? `page.getByRole(${quote(role)}, { name: ${quote(hint.name)} })`
+        : `page.getByRole(${quote(role)})`;
+    }
+
+    case 'text':
+      return `page.getByText(${quote(hint.value)}, { exact: true })`;
+
+    case 'css':
+      return `page.locator(${quote(hint.value)})`;
+
+    case 'label':
+      return `page.getByLabel(${quote(hint.value)}, { exact: true })`;
+
+    case 'placeholder':
+      return `page.getByPlaceholder(${quote(hint.value)}, { exact: true })`;
+  }
+}
+
+// ── Step variables ───────────────────────────────────────────
+
+const PLACEHOLDER = /\$\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * A step value as a TypeScript expression. `${{ secrets.NAME }}` and
+ * `${{ env.NAME }}` read `process.env.NAME` when the spec runs, so the
+ * value never lands in the file. `literal` escapes the text around
+ * them, e.g. for a RegExp source.
+ *
+ * Throws for `${{ totp }}`: the code was only valid when the run
+ * typed it, and a spec cannot generate the next one.
+ */
+function valueExpr(text: string, literal: (text: string) => string = (t) => t): string {
+  const parts: string[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const name = match[1]!;
+    if (name === 'totp') {
+      throw new Error(
+        'A step types a ${{ totp }} one-time code, which an exported spec cannot replay. ' +
+          'Export a run that starts from a saved login instead.',
+      );
+    }
+    const [scope, key, ...rest] = name.split('.');
+    if ((scope !== 'secrets' && scope !== 'env') || key === undefined || rest.length > 0) {
+      continue;
+    }
+    if (match.index > last) parts.push(quote(literal(text.slice(last, match.index))));
+    parts.push(/^[A-Za-z_]\w*$/.test(key) ? `process.env.${key}!` : `process.env[${quote(key)}]!`);
+    last = match.index + match[0].length;
+  }
+
+  if (parts.length === 0) return quote(literal(text));
+  if (last < text.length) parts.push(quote(literal(text.slice(last))));
+  return parts.join(' + ');
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function args(...parts: string[]): string {
+  return parts.filter((p) => p.length > 0).join(', ');
+}
+
+/** Single-quoted TypeScript string literal. */
+function quote(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+  return `'${escaped}'`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,311 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  RunSummary,
+  StepExecutionResult,
+  EvaluationVerdict,
+  BugSeverity,
+  UsageTotals,
+} from '../schema/index.js';
+import { describeSelector } from '../browser/selectors.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface HtmlReportOptions {
+  /**
+   * Maps a step's screenshotPath to the `src` used in the report —
+   * a data URI for a single self-contained file, or a relative path.
+   * Defaults to the path unchanged.
+   */
+  screenshotSrc?: ((screenshotPath: string) => string) | undefined;
+}
+
+// ── Screenshot sources ───────────────────────────────────────
+
+/**
+ * Read every screenshot of the run into a data URI so the report is
+ * a single attachable file. Missing screenshots (browser crashed
+ * mid-step) fall back to their relative path.
+ */
+export async function inlineScreenshots(
+  run: RunSummary,
+  reportDir: string,
+): Promise<(screenshotPath: string) => string> {
+  const inlined = new Map<string, string>();
+
+  for (const sr of run.steps) {
+    if (inlined.has(sr.screenshotPath)) continue;
+    try {
+      const buf = await readFile(sr.screenshotPath);
+      inlined.set(sr.screenshotPath, `data:image/png;base64,${buf.toString('base64')}`);
+    } catch {
+      // Leave unresolved — the relative path is used instead
+    }
+  }
+
+  return (screenshotPath) =>
+    inlined.get(screenshotPath) ?? relativeScreenshots(reportDir)(screenshotPath);
+}
+
+/** Reference screenshots relative to the report's directory. */
+export function relativeScreenshots(
+  reportDir: string,
+): (screenshotPath: string) => string {
+  return (screenshotPath) =>
+    path.relative(reportDir, screenshotPath).split(path.sep).join('/');
+}
+
+// ── HTML generator ───────────────────────────────────────────
+
+export function generateHTML(
+  run: RunSummary,
+  options: HtmlReportOptions = {},
+): string {
+  const src = options.screenshotSrc ?? ((p: string) => p);
+  const body: string[] = [];
+
+  // Header + metadata
+  body.push(`<header>`);
+  body.push(`<h1>PromptQA Report ${verdictBadge(run.summary)}</h1>`);
+  body.push(`<table class="meta">`);
+  body.push(metaRow('URL', `<a href="${escapeHtml(run.url)}">${escapeHtml(run.url)}</a>`));
+  body.push(metaRow('Prompt', escapeHtml(run.prompt)));
+  body.push(metaRow('Run ID', `<code>${escapeHtml(run.runId)}</code>`));
+  body.push(metaRow('Started', escapeHtml(run.startedAt)));
+  body.push(metaRow('Finished', escapeHtml(run.finishedAt)));
+  body.push(metaRow('Duration', escapeHtml(formatDuration(run.durationMs))));
+  body.push(metaRow('Steps', String(run.steps.length)));
+  body.push(metaRow('Bugs', String(run.bugs.length)));
+  if (run.environment !== undefined) {
+    body.push(metaRow('Environment', escapeHtml(run.environment)));
+  }
+  if (run.role !== undefined) {
+    body.push(metaRow('Role', escapeHtml(run.role)));
+  }
+  if (run.parameters !== undefined) {
+    body.push(metaRow('Parameters', escapeHtml(formatParameters(run.parameters))));
+  }
+  if (run.login !== undefined) {
+    const reason = run.login.reason !== undefined ? ` — ${escapeHtml(run.login.reason)}` : '';
+    body.push(metaRow('Login', `${escapeHtml(run.login.status)}${reason}`));
+  }
+  body.push(`</table>`);
+  body.push(`</header>`);
+
+  // Filmstrip timeline
+  if (run.steps.length > 0) {
+    body.push(`<h2>Timeline</h2>`);
+    body.push(`<nav class="filmstrip">`);
+    for (const sr of run.steps) {
+      const verdict = stepVerdict(sr);
+      body.push(
+        `<a class="frame ${verdict.toLowerCase()}" href="#step-${String(sr.stepIndex)}" title="${escapeHtml(sr.step.description)}">` +
+          `<img src="${escapeHtml(src(sr.screenshotPath))}" alt="Step ${String(sr.stepIndex)}" loading="lazy">` +
+          `<span>${String(sr.stepIndex)} · ${escapeHtml(sr.step.type)}</span></a>`,
+      );
+    }
+    body.push(`</nav>`);
+  }
+
+  // LLM usage
+  if (run.usage !== undefined && run.usage.total.calls > 0) {
+    body.push(`<h2>LLM Usage</h2>`);
+    body.push(`<table class="history">`);
+    body.push(`<tr><th>Phase</th><th>Calls</th><th>Input tokens</th><th>Output tokens</th><th>Images</th><th>Latency</th><th>Est. cost</th></tr>`);
+    for (const p of run.usage.phases) {
+      body.push(usageRow(p.phase, p));
+    }
+    body.push(usageRow('total', run.usage.total));
+    body.push(`</table>`);
+  }
+
+  // Bug list
+  if (run.bugs.length > 0) {
+    body.push(`<h2>Bugs</h2>`);
+    body.push(`<ul class="bugs">`);
+    for (const bug of run.bugs) {
+      body.push(`<li>${severityBadge(bug.severity)} <a href="#step-${String(bug.stepIndex)}">Step ${String(bug.stepIndex)}</a>: ${escapeHtml(bug.description)}`);
+      if (bug.evidence.length > 0) {
+        body.push(`<ul>${bug.evidence.map((e) => `<li><code>${escapeHtml(e)}</code></li>`).join('')}</ul>`);
+      }
+      body.push(`</li>`);
+    }
+    body.push(`</ul>`);
+  }
+
+  // Step cards
+  body.push(`<h2>Steps</h2>`);
+  for (const sr of run.steps) {
+    body.push(...renderStepCard(sr, src));
+  }
+
+  // V2 action history
+  if (run.actionHistory && run.actionHistory.length > 0) {
+    body.push(`<h2>Agent Action History</h2>`);
+    body.push(`<table class="history">`);
+    body.push(`<tr><th>#</th><th>Action</th><th>Description</th><th>Result</th><th>Observation</th></tr>`);
+    for (const entry of run.actionHistory) {
+      body.push(
+        `<tr><td>${String(entry.stepIndex + 1)}</td><td><code>${escapeHtml(entry.action)}</code></td>` +
+          `<td>${escapeHtml(entry.description)}</td>` +
+          `<td>${entry.success ? verdictBadge('PASS') : verdictBadge('FAIL')}</td>` +
+          `<td>${escapeHtml(entry.observation)}</td></tr>`,
+      );
+    }
+    body.push(`</table>`);
+  }
+
+  return [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `<head>`,
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>PromptQA — ${escapeHtml(run.summary)} — ${escapeHtml(run.prompt.slice(0, 80))}</title>`,
+    `<style>${STYLES}</style>`,
+    `</head>`,
+    `<body>`,
+    ...body,
+    `</body>`,
+    `</html>`,
+    '',
+  ].join('\n');
+}
+
+// ── Step card ────────────────────────────────────────────────
+
+function renderStepCard(
+  sr: StepExecutionResult,
+  src: (screenshotPath: string) => string,
+): string[] {
+  const lines: string[] = [];
+  const verdict = stepVerdict(sr);
+  const open = verdict === 'PASS' ? '' : ' open';
+
+  lines.push(`<details class="step ${verdict.toLowerCase()}" id="step-${String(sr.stepIndex)}"${open}>`);
+  lines.push(
+    `<summary>${verdictBadge(verdict)} <b>Step ${String(sr.stepIndex)}</b> <code>${escapeHtml(sr.step.type)}</code> ${escapeHtml(sr.step.description)}</summary>`,
+  );
+  lines.push(`<div class="card">`);
+
+  lines.push(`<table class="meta">`);
+  lines.push(metaRow('URL', escapeHtml(sr.url)));
+  if (sr.evaluation) {
+    lines.push(metaRow('Confidence', `${String(Math.round(sr.evaluation.confidence * 100))}%`));
+    lines.push(metaRow('Reason', escapeHtml(sr.evaluation.reason)));
+  } else if (!sr.success) {
+    lines.push(metaRow('Reason', 'Step execution failed'));
+  }
+  for (const res of sr.selectorResolutions ?? []) {
+    if (!res.healed) continue;
+    lines.push(
+      metaRow(
+        res.field !== 'selector' ? `Selector healed (${res.field})` : 'Selector healed',
+        `<code>${escapeHtml(describeSelector(res.requested))}</code> → <code>${escapeHtml(describeSelector(res.matched))}</code>`,
+      ),
+    );
+  }
+  lines.push(`</table>`);
+
+  const consoleErrors = sr.capture.consoleEntries.filter((e) => e.level === 'error');
+  if (consoleErrors.length > 0) {
+    lines.push(`<h4>Console Errors</h4>`);
+    lines.push(list(consoleErrors.map((e) => escapeHtml(e.text))));
+  }
+  if (sr.capture.networkFailures.length > 0) {
+    lines.push(`<h4>Network Failures</h4>`);
+    lines.push(
+      list(
+        sr.capture.networkFailures.map(
+          (f) => `<code>${escapeHtml(`${f.method} ${f.url}`)}</code> → ${String(f.status)} ${escapeHtml(f.statusText)}`,
+        ),
+      ),
+    );
+  }
+  if (sr.capture.pageErrors.length > 0) {
+    lines.push(`<h4>Page Errors</h4>`);
+    lines.push(list(sr.capture.pageErrors.map((pe) => escapeHtml(pe.message))));
+  }
+
+  lines.push(`<img class="shot" src="${escapeHtml(src(sr.screenshotPath))}" alt="Screenshot of step ${String(sr.stepIndex)}" loading="lazy">`);
+  lines.push(`</div>`);
+  lines.push(`</details>`);
+
+  return lines;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function stepVerdict(sr: StepExecutionResult): EvaluationVerdict {
+  return sr.evaluation?.result ?? (sr.success ? 'PASS' : 'FAIL');
+}
+
+function verdictBadge(verdict: EvaluationVerdict): string {
+  return `<span class="badge ${verdict.toLowerCase()}">${verdict}</span>`;
+}
+
+function severityBadge(severity: BugSeverity): string {
+  return `<span class="badge sev-${severity}">${severity.toUpperCase()}</span>`;
+}
+
+function usageRow(label: string, totals: UsageTotals): string {
+  const cost = totals.estimatedCostUsd !== undefined
+    ? `$${totals.estimatedCostUsd.toFixed(4)}`
+    : 'n/a';
+  return `<tr><th>${escapeHtml(label)}</th><td>${String(totals.calls)}</td><td>${String(totals.inputTokens)}</td>` +
+    `<td>${String(totals.outputTokens)}</td><td>${String(totals.images)}</td>` +
+    `<td>${formatDuration(totals.latencyMs)}</td><td>${cost}</td></tr>`;
+}
+
+function metaRow(label: string, valueHtml: string): string {
+  return `<tr><th>${escapeHtml(label)}</th><td>${valueHtml}</td></tr>`;
+}
+
+function list(itemsHtml: readonly string[]): string {
+  return `<ul>${itemsHtml.map((i) => `<li>${i}</li>`).join('')}</ul>`;
+}
+
+function formatParameters(parameters: Record<string, string>): string {
+  return Object.entries(parameters)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${String(ms)}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ── Styles ───────────────────────────────────────────────────
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.6rem; } h2 { margin-top: 2rem; border-bottom: 1px solid #d0d7de; }
+code { font: 12px ui-monospace, monospace; background: #f6f8fa; padding: 1px 4px; border-radius: 4px; }
+table { border-collapse: collapse; } th, td { text-align: left; padding: 4px 10px; vertical-align: top; }
+table.meta th { color: #57606a; white-space: nowrap; }
+table.history { width: 100%; } table.history tr:nth-child(even) { background: #f6f8fa; }
+.badge { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: 12px; font-weight: 600; color: #fff; }
+.badge.pass { background: #1a7f37; } .badge.fail { background: #cf222e; } .badge.uncertain { background: #9a6700; }
+.badge.sev-critical { background: #82071e; } .badge.sev-major { background: #cf222e; } .badge.sev-minor { background: #9a6700; }
+.filmstrip { display: flex; gap: 8px; overflow-x: auto; padding-bottom: 8px; }
+.frame { flex: 0 0 160px; text-decoration: none; color: inherit; border: 3px solid #d0d7de; border-radius: 6px; overflow: hidden; }
+.frame.pass { border-color: #1a7f37; } .frame.fail { border-color: #cf222e; } .frame.uncertain { border-color: #9a6700; }
+.frame img { width: 100%; height: 100px; object-fit: cover; object-position: top; display: block; }
+.frame span { display: block; font-size: 12px; padding: 2px 6px; }
+details.step { border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; }
+details.step > summary { cursor: pointer; padding: 8px 12px; }
+details.step.fail { border-color: #cf222e; }
+.card { padding: 0 12px 12px; }
+img.shot { max-width: 100%; border: 1px solid #d0d7de; margin-top: 8px; }
+`;
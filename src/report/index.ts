@@ -1,8 +1,15 @@
 /**
  * Report generation module.
  * Deterministic — no LLM calls.
- * Transforms evaluated results into markdown + JSON artifacts.
+ * Transforms evaluated results into markdown, HTML, JSON and JUnit artifacts
+ * and exports executed runs as Playwright Test specs.
  */
 
 export { generateMarkdown, generateJSON, serializeJSON } from './reporter.js';
 export type { JsonOutput, JsonOutputStep, JsonOutputBug } from './reporter.js';
+export { generatePlaywrightSpec, stepsFromResults } from './exporter.js';
+export type { SpecExportInput } from './exporter.js';
+export { generateJUnit } from './junit.js';
+export type { JUnitTestCase, JUnitOptions, JUnitUncertainMode } from './junit.js';
+export { generateHTML, inlineScreenshots, relativeScreenshots } from './html.js';
+export type { HtmlReportOptions } from './html.js';
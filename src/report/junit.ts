@@ -0,0 +1,224 @@
+import type {
+  RunSummary,
+  StepExecutionResult,
+  EvaluationVerdict,
+} from '../schema/index.js';
+
+// ── Public types ─────────────────────────────────────────────
+
+/** One `promptqa run` test entry — becomes one `<testcase>`. */
+export interface JUnitTestCase {
+  name: string;
+  exitCode: number;
+  durationMs: number;
+  /** Present when the run completed; absent when it crashed. */
+  summary?: RunSummary | undefined;
+  /** Crash message when the run threw before producing a summary. */
+  error?: string | undefined;
+}
+
+/** How an UNCERTAIN verdict is reported to CI. */
+export type JUnitUncertainMode = 'skipped' | 'failure';
+
+export interface JUnitOptions {
+  suiteName?: string | undefined;
+  uncertain?: JUnitUncertainMode | undefined;
+}
+
+// ── JUnit generator ──────────────────────────────────────────
+
+/**
+ * Render JUnit XML for CI dashboards.
+ *
+ * Mapping:
+ *   FAIL      → <failure> with the evaluator reason + BugReport evidence
+ *   UNCERTAIN → <skipped> (or <failure> when `uncertain: 'failure'`)
+ *   crash     → <error>
+ * Steps are listed as <property> records and screenshots are emitted
+ * as [[ATTACHMENT|path]] lines in <system-out>.
+ */
+export function generateJUnit(
+  cases: readonly JUnitTestCase[],
+  options: JUnitOptions = {},
+): string {
+  const suiteName = options.suiteName ?? 'promptqa';
+  const uncertainMode = options.uncertain ?? 'skipped';
+
+  let failures = 0;
+  let errors = 0;
+  let skipped = 0;
+  let totalMs = 0;
+
+  const body: string[] = [];
+
+  for (const tc of cases) {
+    totalMs += tc.durationMs;
+    const outcome = classify(tc, uncertainMode);
+    if (outcome === 'failure') failures++;
+    if (outcome === 'error') errors++;
+    if (outcome === 'skipped') skipped++;
+    body.push(...renderTestCase(tc, suiteName, outcome));
+  }
+
+  const timestamp = cases
+    .map((tc) => tc.summary?.startedAt)
+    .filter((t): t is string => t !== undefined)
+    .sort()[0] ?? new Date().toISOString();
+
+  const counts = `tests="${String(cases.length)}" failures="${String(failures)}" errors="${String(errors)}" skipped="${String(skipped)}" time="${formatSeconds(totalMs)}"`;
+
+  const lines: string[] = [];
+  lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+  lines.push(`<testsuites name="${escapeXml(suiteName)}" ${counts}>`);
+  lines.push(`  <testsuite name="${escapeXml(suiteName)}" ${counts} timestamp="${escapeXml(timestamp)}">`);
+  lines.push(...body);
+  lines.push(`  </testsuite>`);
+  lines.push(`</testsuites>`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+// ── Test case rendering ──────────────────────────────────────
+
+type Outcome = 'passed' | 'failure' | 'skipped' | 'error';
+
+function classify(tc: JUnitTestCase, uncertainMode: JUnitUncertainMode): Outcome {
+  if (!tc.summary) return 'error';
+  switch (tc.summary.summary) {
+    case 'PASS':
+      return 'passed';
+    case 'FAIL':
+      return 'failure';
+    case 'UNCERTAIN':
+      return uncertainMode === 'failure' ? 'failure' : 'skipped';
+  }
+}
+
+function renderTestCase(
+  tc: JUnitTestCase,
+  suiteName: string,
+  outcome: Outcome,
+): string[] {
+  const lines: string[] = [];
+  const run = tc.summary;
+
+  lines.push(
+    `    <testcase name="${escapeXml(tc.name)}" classname="${escapeXml(`${suiteName}.${tc.name}`)}" time="${formatSeconds(tc.durationMs)}">`,
+  );
+
+  if (run) {
+    lines.push(`      <properties>`);
+    lines.push(property('runId', run.runId));
+    lines.push(property('url', run.url));
+    lines.push(property('prompt', run.prompt));
+    if (run.environment !== undefined) {
+      lines.push(property('environment', run.environment));
+    }
+    if (run.role !== undefined) {
+      lines.push(property('role', run.role));
+    }
+    for (const [name, value] of Object.entries(run.parameters ?? {})) {
+      lines.push(property(`param.${name}`, value));
+    }
+    lines.push(property('exitCode', String(tc.exitCode)));
+    for (const sr of run.steps) {
+      lines.push(property(`step.${String(sr.stepIndex)}`, describeStep(sr)));
+    }
+    lines.push(`      </properties>`);
+  }
+
+  switch (outcome) {
+    case 'error':
+      lines.push(
+        `      <error message="${escapeXml(tc.error ?? 'Run crashed')}" type="error"/>`,
+      );
+      break;
+
+    case 'failure': {
+      const verdict: EvaluationVerdict = run?.summary ?? 'FAIL';
+      lines.push(
+        `      <failure message="${escapeXml(failureReason(run))}" type="${verdict}">${escapeXml(failureDetails(run))}</failure>`,
+      );
+      break;
+    }
+
+    case 'skipped':
+      lines.push(`      <skipped message="${escapeXml(failureReason(run))}"/>`);
+      break;
+
+    case 'passed':
+      break;
+  }
+
+  if (run) {
+    lines.push(`      <system-out>${escapeXml(systemOut(run))}</system-out>`);
+  }
+
+  lines.push(`    </testcase>`);
+  return lines;
+}
+
+// ── Content helpers ──────────────────────────────────────────
+
+function stepVerdict(sr: StepExecutionResult): EvaluationVerdict {
+  return sr.evaluation?.result ?? (sr.success ? 'PASS' : 'FAIL');
+}
+
+function describeStep(sr: StepExecutionResult): string {
+  const reason = sr.evaluation?.reason ?? (sr.success ? '' : 'Step execution failed');
+  return `[${stepVerdict(sr)}] ${sr.step.type}: ${sr.step.description}${reason ? ` — ${reason}` : ''}`;
+}
+
+/** The first non-passing step's reason, or the first bug. */
+function failureReason(run: RunSummary | undefined): string {
+  if (!run) return '';
+  const offending = run.steps.find((sr) => stepVerdict(sr) === run.summary);
+  if (offending) {
+    return offending.evaluation?.reason ?? `Step failed: ${offending.step.description}`;
+  }
+  return run.bugs[0]?.description ?? run.summary;
+}
+
+function failureDetails(run: RunSummary | undefined): string {
+  if (!run) return '';
+  const lines: string[] = [];
+  for (const bug of run.bugs) {
+    lines.push(`[${bug.severity.toUpperCase()}] Step ${String(bug.stepIndex)}: ${bug.description}`);
+    for (const e of bug.evidence) {
+      lines.push(`  - ${e}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function systemOut(run: RunSummary): string {
+  const lines: string[] = [];
+  for (const sr of run.steps) {
+    lines.push(`Step ${String(sr.stepIndex)}: ${describeStep(sr)}`);
+  }
+  for (const sr of run.steps) {
+    lines.push(`[[ATTACHMENT|${sr.screenshotPath}]]`);
+  }
+  return lines.join('\n');
+}
+
+function property(name: string, value: string): string {
+  return `        <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`;
+}
+
+function formatSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Strip characters that are illegal in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -2,6 +2,7 @@ import type {
   RunSummary,
   StepExecutionResult,
   EvaluationVerdict,
+  UsageTotals,
 } from '../schema/index.js';
 import {
   JSON_OUTPUT_VERSION,
@@ -11,6 +12,8 @@ import type {
   JsonOutputStep,
   JsonOutputBug,
 } from '../schema/jsonOutput.js';
+import { describeSelector } from '../browser/selectors.js';
+import { redact } from '../utils/redact.js';
 
 // Re-export contract types for consumers
 export type { JsonOutput, JsonOutputStep, JsonOutputBug };
@@ -31,6 +34,11 @@ export function generateJSON(
     exitCode,
     steps: run.steps.map(stepToJSON),
     bugs: run.bugs.map(bugToJSON),
+    ...(run.usage !== undefined ? { usage: run.usage } : {}),
+    ...(run.environment !== undefined ? { environment: run.environment } : {}),
+    ...(run.role !== undefined ? { role: run.role } : {}),
+    ...(run.parameters !== undefined ? { parameters: run.parameters } : {}),
+    ...(run.login !== undefined ? { login: run.login } : {}),
   };
 }
 
@@ -60,7 +68,7 @@ function bugToJSON(bug: RunSummary['bugs'][number]): JsonOutputBug {
 // Keys are sorted lexicographically for stable, diffable output.
 
 export function serializeJSON(output: JsonOutput): string {
-  return JSON.stringify(output, sortedReplacer, 2);
+  return redact(JSON.stringify(output, sortedReplacer, 2));
 }
 
 function sortedReplacer(_key: string, value: unknown): unknown {
@@ -91,6 +99,19 @@ export function generateMarkdown(run: RunSummary): string {
   lines.push(`| **Finished** | ${run.finishedAt} |`);
   lines.push(`| **Duration** | ${formatDuration(run.durationMs)} |`);
   lines.push(`| **Result** | **${run.summary}** ${verdictIcon(run.summary)} |`);
+  if (run.environment !== undefined) {
+    lines.push(`| **Environment** | ${escapeMarkdownCell(run.environment)} |`);
+  }
+  if (run.role !== undefined) {
+    lines.push(`| **Role** | ${escapeMarkdownCell(run.role)} |`);
+  }
+  if (run.parameters !== undefined) {
+    lines.push(`| **Parameters** | ${escapeMarkdownCell(formatParameters(run.parameters))} |`);
+  }
+  if (run.login !== undefined) {
+    const reason = run.login.reason !== undefined ? ` — ${escapeMarkdownCell(run.login.reason)}` : '';
+    lines.push(`| **Login** | ${run.login.status}${reason} |`);
+  }
   lines.push('');
 
   // Step summary table
@@ -112,6 +133,37 @@ export function generateMarkdown(run: RunSummary): string {
 
   lines.push('');
 
+  // LLM usage per phase
+  if (run.usage !== undefined && run.usage.total.calls > 0) {
+    lines.push(`## LLM Usage`);
+    lines.push('');
+    lines.push(`| Phase | Calls | Input tokens | Output tokens | Images | Latency | Est. cost |`);
+    lines.push(`|-------|-------|--------------|---------------|--------|---------|-----------|`);
+    for (const p of run.usage.phases) {
+      lines.push(usageRow(p.phase, p));
+    }
+    lines.push(usageRow('**total**', run.usage.total));
+    lines.push('');
+  }
+
+  // Healed selectors — the prompt or page drifted; fix before it rots
+  const healed = run.steps.flatMap((sr) =>
+    (sr.selectorResolutions ?? []).filter((res) => res.healed).map((res) => ({ sr, res })),
+  );
+  if (healed.length > 0) {
+    lines.push(`## Healed Selectors`);
+    lines.push('');
+    lines.push(`| # | Description | Requested | Matched |`);
+    lines.push(`|---|-------------|-----------|---------|`);
+    for (const { sr, res } of healed) {
+      const field = res.field !== 'selector' ? ` (${res.field})` : '';
+      lines.push(
+        `| ${String(sr.stepIndex)} | ${escapeMarkdownCell(sr.step.description + field)} | \`${escapeMarkdownCell(describeSelector(res.requested))}\` | \`${escapeMarkdownCell(describeSelector(res.matched))}\` |`,
+      );
+    }
+    lines.push('');
+  }
+
   // Per-step details
   lines.push(`## Step Details`);
   lines.push('');
@@ -122,6 +174,15 @@ export function generateMarkdown(run: RunSummary): string {
     lines.push(`![screenshot](${sr.screenshotPath})`);
     lines.push('');
 
+    for (const res of sr.selectorResolutions ?? []) {
+      if (!res.healed) continue;
+      const field = res.field !== 'selector' ? ` (${res.field})` : '';
+      lines.push(
+        `**Selector healed${field}:** \`${describeSelector(res.requested)}\` -> \`${describeSelector(res.matched)}\``,
+      );
+      lines.push('');
+    }
+
     const consoleErrors = sr.capture.consoleEntries.filter(
       (e) => e.level === 'error',
     );
@@ -181,6 +242,13 @@ export function generateMarkdown(run: RunSummary): string {
 
 // ── Helpers ──────────────────────────────────────────────────
 
+function usageRow(label: string, totals: UsageTotals): string {
+  const cost = totals.estimatedCostUsd !== undefined
+    ? `$${totals.estimatedCostUsd.toFixed(4)}`
+    : 'n/a';
+  return `| ${label} | ${String(totals.calls)} | ${String(totals.inputTokens)} | ${String(totals.outputTokens)} | ${String(totals.images)} | ${formatDuration(totals.latencyMs)} | ${cost} |`;
+}
+
 function collectErrors(sr: StepExecutionResult): string[] {
   const errors: string[] = [];
 
@@ -210,6 +278,12 @@ function verdictIcon(verdict: EvaluationVerdict): string {
   }
 }
 
+function formatParameters(parameters: Record<string, string>): string {
+  return Object.entries(parameters)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${String(ms)}ms`;
   const seconds = (ms / 1000).toFixed(1);
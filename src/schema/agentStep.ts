@@ -1,16 +1,32 @@
 import { z } from 'zod';
 
-import { selectorHintSchema } from './step.js';
+import { scrollDirectionSchema, selectorHintSchema } from './step.js';
 
 // ── Step schema for V2 agent loop (no "goto") ───────────────
 
-const agentStepTypeSchema = z.enum([
+export const agentStepTypeSchema = z.enum([
   'click',
   'type',
   'select',
   'wait',
   'expect_text',
   'press_key',
+  'hover',
+  'dblclick',
+  'right_click',
+  'drag',
+  'scroll',
+  'expect_url',
+  'expect_visible',
+  'expect_hidden',
+  'expect_count',
+  'expect_attribute',
+  'expect_value',
+  'expect_enabled',
+  'expect_disabled',
+  'expect_title',
+  'switch_tab',
+  'close_tab',
 ]);
 
 export type AgentStepType = z.infer<typeof agentStepTypeSchema>;
@@ -60,6 +76,109 @@ const agentPressKeyStepSchema = z.object({
   value: z.string().min(1),
 });
 
+const agentHoverStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('hover'),
+  selector: selectorHintSchema,
+});
+
+const agentDblclickStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('dblclick'),
+  selector: selectorHintSchema,
+});
+
+const agentRightClickStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('right_click'),
+  selector: selectorHintSchema,
+});
+
+const agentDragStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('drag'),
+  source: selectorHintSchema,
+  target: selectorHintSchema,
+});
+
+const agentScrollStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('scroll'),
+  selector: selectorHintSchema.optional(),
+  direction: scrollDirectionSchema.optional(),
+  amount: z.number().int().positive().optional(),
+  until: z.union([z.literal('end'), selectorHintSchema]).optional(),
+});
+
+const agentExpectUrlStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_url'),
+  value: z.string().min(1),
+});
+
+const agentExpectVisibleStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_visible'),
+  selector: selectorHintSchema,
+});
+
+const agentExpectHiddenStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_hidden'),
+  selector: selectorHintSchema,
+});
+
+const agentExpectCountStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_count'),
+  selector: selectorHintSchema,
+  count: z.number().int().nonnegative(),
+});
+
+const agentExpectAttributeStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_attribute'),
+  selector: selectorHintSchema,
+  attribute: z.string().min(1),
+  value: z.string().optional(),
+});
+
+const agentExpectValueStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_value'),
+  selector: selectorHintSchema,
+  value: z.string(),
+});
+
+const agentExpectEnabledStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_enabled'),
+  selector: selectorHintSchema,
+});
+
+const agentExpectDisabledStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_disabled'),
+  selector: selectorHintSchema,
+});
+
+const agentExpectTitleStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_title'),
+  value: z.string().min(1),
+});
+
+const agentSwitchTabStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('switch_tab'),
+  value: z.string().min(1),
+});
+
+const agentCloseTabStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('close_tab'),
+});
+
 export const agentActionStepSchema = z.discriminatedUnion('type', [
   agentClickStepSchema,
   agentTypeStepSchema,
@@ -67,6 +186,22 @@ export const agentActionStepSchema = z.discriminatedUnion('type', [
   agentWaitStepSchema,
   agentExpectTextStepSchema,
   agentPressKeyStepSchema,
+  agentHoverStepSchema,
+  agentDblclickStepSchema,
+  agentRightClickStepSchema,
+  agentDragStepSchema,
+  agentScrollStepSchema,
+  agentExpectUrlStepSchema,
+  agentExpectVisibleStepSchema,
+  agentExpectHiddenStepSchema,
+  agentExpectCountStepSchema,
+  agentExpectAttributeStepSchema,
+  agentExpectValueStepSchema,
+  agentExpectEnabledStepSchema,
+  agentExpectDisabledStepSchema,
+  agentExpectTitleStepSchema,
+  agentSwitchTabStepSchema,
+  agentCloseTabStepSchema,
 ]);
 
 export type AgentActionStep = z.infer<typeof agentActionStepSchema>;
@@ -104,12 +239,14 @@ export type AgentFinalEvaluation = z.infer<typeof agentFinalEvaluationSchema>;
 
 // ── Action history entry ────────────────────────────────────
 
-export interface ActionHistoryEntry {
-  stepIndex: number;
-  action: string;
-  description: string;
-  success: boolean;
-  observation: string;
-  elementCountBefore?: number;
-  elementCountAfter?: number;
-}
+export const actionHistoryEntrySchema = z.object({
+  stepIndex: z.number().int().nonnegative(),
+  action: z.string(),
+  description: z.string(),
+  success: z.boolean(),
+  observation: z.string(),
+  elementCountBefore: z.number().int().nonnegative().optional(),
+  elementCountAfter: z.number().int().nonnegative().optional(),
+});
+
+export type ActionHistoryEntry = z.infer<typeof actionHistoryEntrySchema>;
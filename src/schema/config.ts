@@ -1,35 +1,233 @@
 import { z } from 'zod';
 
+import { selectorHintSchema } from './step.js';
+import { budgetConfigSchema, priceTableSchema } from './usage.js';
+
 // ── Test entry ──────────────────────────────────────────────
 
+const parameterNameSchema = z.string().regex(/^\w+$/, 'Use letters, digits and _ only');
+
+// YAML reads `id: 42` as a number — accept scalars, substitute text
+const parameterValueSchema = z
+  .union([z.string(), z.number(), z.boolean()])
+  .transform((value) => String(value));
+
 export const testEntrySchema = z.object({
   name: z.string().min(1),
   prompt: z.string().min(1),
-  url: z.string().url().optional(),
-});
+  url: z
+    .string()
+    .refine(isValidUrlTemplate, { message: 'Invalid url' })
+    .optional(),
+  /** Name of an `auth.roles` entry to log in as. */
+  role: z.string().min(1).optional(),
+  /**
+   * Rows of values for `${{ params.NAME }}` in prompt and url. Each
+   * row (times each matrix combination) runs as its own test.
+   */
+  parameters: z.array(z.record(parameterNameSchema, parameterValueSchema)).min(1).optional(),
+  /** Values per parameter — every combination runs as its own test. */
+  matrix: z.record(parameterNameSchema, z.array(parameterValueSchema).min(1)).optional(),
+}).strict();
 
 export type TestEntry = z.infer<typeof testEntrySchema>;
 
 // ── Auth block ──────────────────────────────────────────────
 
-export const authConfigSchema = z.object({
+/** Where and how long a successful login is kept for reuse. */
+export const authStorageStateSchema = z.object({
+  enabled: z.boolean().optional().default(true),
+  /** Seconds a saved login is trusted before logging in again. */
+  ttl: z.number().positive().optional().default(3600),
+  dir: z.string().min(1).optional().default('.promptqa/auth'),
+}).strict();
+
+export type AuthStorageState = z.infer<typeof authStorageStateSchema>;
+
+/**
+ * How to tell that a login worked. Every configured predicate must
+ * hold. Without this block a login counts as successful once no
+ * password field is visible.
+ */
+export const loginSuccessCheckSchema = z.object({
+  /** Regular expression the page URL must match. */
+  url: z
+    .string()
+    .min(1)
+    .refine(isValidRegExp, { message: 'Invalid regular expression' })
+    .optional(),
+  visible: selectorHintSchema.strict().optional(),
+  hidden: selectorHintSchema.strict().optional(),
+  /** Name of a cookie the app sets on login. */
+  cookie: z.string().min(1).optional(),
+  text: z.string().min(1).optional(),
+  /** Seconds to wait for all predicates to hold. */
+  timeout: z.number().positive().optional().default(10),
+}).strict();
+
+export type LoginSuccessCheck = z.infer<typeof loginSuccessCheckSchema>;
+
+/**
+ * Time-based one-time codes for 2FA logins. The base32 secret is read
+ * from an environment variable; login steps type the current code as
+ * `${{ totp }}`.
+ */
+export const totpConfigSchema = z.object({
+  secretEnv: z.string().min(1),
+  digits: z.number().int().min(6).max(8).optional().default(6),
+  /** Seconds each code is valid for. */
+  period: z.number().int().positive().optional().default(30),
+  algorithm: z.enum(['SHA1', 'SHA256', 'SHA512']).optional().default('SHA1'),
+}).strict();
+
+export type TotpConfig = z.infer<typeof totpConfigSchema>;
+
+/**
+ * A cookie with full attributes. Scoped by `url`, or by `domain` and
+ * `path`; with neither it belongs to the test URL.
+ */
+export const authCookieSchema = z
+  .object({
+    name: z.string().min(1),
+    value: z.string(),
+    url: z.string().url().optional(),
+    domain: z.string().min(1).optional(),
+    path: z.string().startsWith('/').optional(),
+    /** Unix time in seconds; omit for a session cookie. */
+    expires: z.number().optional(),
+    httpOnly: z.boolean().optional(),
+    secure: z.boolean().optional(),
+    sameSite: z.enum(['Strict', 'Lax', 'None']).optional(),
+  })
+  .strict()
+  .refine((c) => c.url === undefined || (c.domain === undefined && c.path === undefined), {
+    message: 'Set either url or domain/path, not both',
+  });
+
+export type AuthCookie = z.infer<typeof authCookieSchema>;
+
+export const basicAuthSchema = z.object({
+  username: z.string().min(1),
+  password: z.string(),
+}).strict();
+
+export type BasicAuth = z.infer<typeof basicAuthSchema>;
+
+/**
+ * One set of credentials — the top-level auth block or a named role.
+ * Headers, basic credentials and bearer tokens are only sent to the
+ * test URL's origin.
+ */
+export const authRoleSchema = z.object({
   cookie: z.string().optional(),
+  cookies: z.array(authCookieSchema).optional(),
+  headers: z.record(z.string().min(1), z.string()).optional(),
+  basic: basicAuthSchema.optional(),
+  /** Sent as `Authorization: Bearer <token>`. */
+  bearer: z.string().min(1).optional(),
   loginPrompt: z.string().optional(),
+  successCheck: loginSuccessCheckSchema.optional(),
+  totp: totpConfigSchema.optional(),
+}).strict();
+
+export type AuthRole = z.infer<typeof authRoleSchema>;
+
+export const authConfigSchema = authRoleSchema.extend({
+  /**
+   * Named users, e.g. admin/editor/viewer. A test picks one with
+   * `role`; tests without a role use the top-level fields. Roles
+   * without their own `successCheck` inherit the top-level one.
+   */
+  roles: z.record(z.string().min(1), authRoleSchema).optional(),
+  storageState: authStorageStateSchema.optional(),
 });
 
 export type AuthConfig = z.infer<typeof authConfigSchema>;
 
 // ── Full config file ────────────────────────────────────────
 
-export const fileConfigSchema = z.object({
+// Unknown keys are errors, not silently dropped — a typo like
+// `headles: true` must not quietly run headed.
+const fileConfigObjectSchema = z.object({
   baseUrl: z.string().url(),
   maxSteps: z.number().int().positive().optional().default(12),
   headless: z.boolean().optional().default(false),
   timeout: z.number().positive().optional().default(180),
-  provider: z.enum(['anthropic', 'openai', 'mock']).optional(),
+  workers: z.number().int().positive().optional().default(1),
+  /** Where per-test artifacts and reports are written. */
+  reportPath: z.string().min(1).optional().default('.artifacts'),
+  provider: z.enum(['anthropic', 'openai', 'local', 'mock', 'cassette']).optional(),
   model: z.string().min(1).optional(),
+  /** OpenAI-compatible server for the openai/local providers. */
+  llmBaseUrl: z.string().url().optional(),
+  /** Send screenshots to the model; off by default for `local`. */
+  llmVision: z.boolean().optional(),
+  pricing: priceTableSchema.optional(),
+  budget: budgetConfigSchema.optional(),
   auth: authConfigSchema.optional(),
   tests: z.array(testEntrySchema).min(1),
-});
+}).strict();
+
+export const fileConfigSchema = fileConfigObjectSchema.superRefine(checkTestRoles);
 
 export type FileConfig = z.infer<typeof fileConfigSchema>;
+
+/**
+ * The same file as read by `promptqa test`, which takes the URL and
+ * prompt from the command line — so the file may omit both.
+ */
+export const adHocConfigSchema = fileConfigObjectSchema
+  .partial({ baseUrl: true, tests: true })
+  .superRefine(checkTestRoles);
+
+export type AdHocConfig = z.infer<typeof adHocConfigSchema>;
+
+// ── Environments ────────────────────────────────────────────
+
+/**
+ * Named overrides (local, staging, prod, ...) deep-merged onto the
+ * base config by `--env` before it is validated — so each entry is a
+ * partial config, checked only once merged.
+ */
+export const environmentsSchema = z.record(
+  z.string().min(1),
+  z.record(z.string(), z.unknown()),
+);
+
+export type Environments = z.infer<typeof environmentsSchema>;
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function checkTestRoles(
+  config: { tests?: TestEntry[] | undefined; auth?: AuthConfig | undefined },
+  ctx: z.RefinementCtx,
+): void {
+  (config.tests ?? []).forEach((test, index) => {
+    if (test.role !== undefined && config.auth?.roles?.[test.role] === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tests', index, 'role'],
+        message: `Unknown auth role "${test.role}"`,
+      });
+    }
+  });
+}
+
+/** A URL, once any `${{ ... }}` placeholders are filled in. */
+function isValidUrlTemplate(url: string): boolean {
+  try {
+    new URL(url.replace(/\$\{\{[^}]*\}\}/g, 'x'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
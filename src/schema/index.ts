@@ -11,3 +11,6 @@ export * from './prescan.js';
 export * from './config.js';
 export * from './jsonOutput.js';
 export * from './agentStep.js';
+export * from './plan.js';
+export * from './usage.js';
+export * from './jsonSchema.js';
@@ -1,11 +1,16 @@
 import { z } from 'zod';
 
-import { evaluationVerdictSchema, bugSeveritySchema } from './results.js';
+import {
+  evaluationVerdictSchema,
+  bugSeveritySchema,
+  loginOutcomeSchema,
+} from './results.js';
+import { runUsageSchema } from './usage.js';
 
 // ── Version ─────────────────────────────────────────────────
 // Bump this when the contract changes.
 
-export const JSON_OUTPUT_VERSION = '1.0' as const;
+export const JSON_OUTPUT_VERSION = '1.5' as const;
 
 // ── Step output ─────────────────────────────────────────────
 
@@ -45,6 +50,11 @@ export const jsonOutputSchema = z.object({
   exitCode: z.number().int().nonnegative(),
   steps: z.array(jsonOutputStepSchema),
   bugs: z.array(jsonOutputBugSchema),
+  usage: runUsageSchema.optional(),
+  environment: z.string().min(1).optional(),
+  role: z.string().min(1).optional(),
+  parameters: z.record(z.string()).optional(),
+  login: loginOutcomeSchema.optional(),
 });
 
 export type JsonOutput = z.infer<typeof jsonOutputSchema>;
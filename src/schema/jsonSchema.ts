@@ -0,0 +1,182 @@
+import { z } from 'zod';
+
+import { fileConfigSchema } from './config.js';
+
+/**
+ * JSON Schema (draft-07) for `.promptqa.yaml`, derived from the Zod
+ * schemas so editor completion never drifts from what the loader
+ * accepts. Refinements (e.g. "url or domain, not both") have no JSON
+ * Schema form and are only checked by `promptqa validate`.
+ */
+
+// ── Public types ─────────────────────────────────────────────
+
+export interface JsonSchema {
+  [keyword: string]: unknown;
+}
+
+// ── Public API ──────────────────────────────────────────────
+
+/** The schema for a whole config file, including `environments`. */
+export function configJsonSchema(): JsonSchema {
+  const root = toJsonSchema(fileConfigSchema);
+  const properties = root['properties'] as Record<string, JsonSchema>;
+
+  // An environment entry is any subset of the top-level settings
+  const { required: _required, ...overrides } = root;
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'PromptQA config',
+    ...root,
+    properties: {
+      ...properties,
+      environments: {
+        type: 'object',
+        description: 'Named overrides (local, staging, prod, ...) merged onto the config by --env.',
+        additionalProperties: overrides,
+      },
+    },
+  };
+}
+
+/** Convert a Zod schema. Unsupported types map to `{}` (anything). */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  return schema.description !== undefined
+    ? { description: schema.description, ...result }
+    : result;
+}
+
+// ── Conversion ───────────────────────────────────────────────
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap() as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap() as z.ZodTypeAny), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...toJsonSchema(schema.removeDefault() as z.ZodTypeAny),
+      default: schema._def.defaultValue() as unknown,
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    return convertObject(schema);
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: toJsonSchema(schema.element as z.ZodTypeAny),
+      ...(minLength !== null ? { minItems: minLength.value } : {}),
+      ...(maxLength !== null ? { maxItems: maxLength.value } : {}),
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    const keys = toJsonSchema(schema.keySchema as z.ZodTypeAny);
+    return {
+      type: 'object',
+      ...(keys['pattern'] !== undefined ? { propertyNames: { pattern: keys['pattern'] } } : {}),
+      additionalProperties: toJsonSchema(schema.valueSchema as z.ZodTypeAny),
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    return { anyOf: options.map(toJsonSchema) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...(schema.options as string[])] };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value as unknown };
+  }
+  if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  return {};
+}
+
+function convertObject(schema: z.ZodObject<z.ZodRawShape>): JsonSchema {
+  const shape = schema.shape;
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = toJsonSchema(value);
+    if (!value.isOptional()) required.push(key);
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    // Same rule as the loader: strict objects reject unknown keys
+    ...(schema._def.unknownKeys === 'strict' ? { additionalProperties: false } : {}),
+  };
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result['minLength'] = check.value;
+        break;
+      case 'max':
+        result['maxLength'] = check.value;
+        break;
+      case 'url':
+        result['format'] = 'uri';
+        break;
+      case 'email':
+        result['format'] = 'email';
+        break;
+      case 'regex':
+        result['pattern'] = check.regex.source;
+        break;
+      case 'startsWith':
+        result['pattern'] = `^${escapeRegExp(check.value)}`;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result['type'] = 'integer';
+        break;
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+import { stepSchema } from './step.js';
+
+// ── Version ─────────────────────────────────────────────────
+// Bump this when the plan file format changes.
+
+export const PLAN_FILE_VERSION = '1.0' as const;
+
+// ── Plan file ───────────────────────────────────────────────
+
+export const planSourceSchema = z.enum(['planner', 'agent', 'replay']);
+
+export type PlanSource = z.infer<typeof planSourceSchema>;
+
+export const planFileSchema = z.object({
+  version: z.literal(PLAN_FILE_VERSION),
+  source: planSourceSchema,
+  createdAt: z.string().datetime(),
+  url: z.string().url(),
+  prompt: z.string().min(1),
+  loginSteps: z.array(stepSchema).optional(),
+  steps: z.array(stepSchema),
+});
+
+export type PlanFile = z.infer<typeof planFileSchema>;
+
+// ── Validators ──────────────────────────────────────────────
+
+export function parsePlanFile(data: unknown): PlanFile {
+  return planFileSchema.parse(data);
+}
@@ -15,6 +15,8 @@ export const interactiveElementSchema = z.object({
   ariaBusy: z.string().optional(),
   classList: z.string().optional(),
   readOnly: z.boolean().optional(),
+  /** False for elements below the fold or otherwise scrolled out of view. */
+  inViewport: z.boolean().optional(),
 });
 
 export type InteractiveElement = z.infer<typeof interactiveElementSchema>;
@@ -1,7 +1,9 @@
 import { z } from 'zod';
 
-import { stepSchema } from './step.js';
+import { stepSchema, selectorHintSchema } from './step.js';
 import { stepCaptureSchema } from './capture.js';
+import { actionHistoryEntrySchema } from './agentStep.js';
+import { runUsageSchema } from './usage.js';
 
 // ── EvaluationResult ──────────────────────────────────────────
 
@@ -17,6 +19,25 @@ export const evaluationResultSchema = z.object({
 
 export type EvaluationResult = z.infer<typeof evaluationResultSchema>;
 
+// ── SelectorResolution ────────────────────────────────────────
+// Which selector the runner actually used for one of the step's
+// hints (`field`: drag has a source and a target). `healed` is true
+// when the requested hint matched nothing and a candidate built from
+// the live DOM was used instead.
+
+export const selectorFieldSchema = z.enum(['selector', 'source', 'target']);
+
+export type SelectorField = z.infer<typeof selectorFieldSchema>;
+
+export const selectorResolutionSchema = z.object({
+  field: selectorFieldSchema,
+  requested: selectorHintSchema,
+  matched: selectorHintSchema,
+  healed: z.boolean(),
+});
+
+export type SelectorResolution = z.infer<typeof selectorResolutionSchema>;
+
 // ── StepExecutionResult ───────────────────────────────────────
 
 export const stepExecutionResultSchema = z.object({
@@ -27,6 +48,12 @@ export const stepExecutionResultSchema = z.object({
   screenshotPath: z.string().min(1),
   visibleText: z.string(),
   capture: stepCaptureSchema,
+  /** One entry per selector the step located, in the order it did. */
+  selectorResolutions: z.array(selectorResolutionSchema).optional(),
+  /** URLs of tabs or popups the step opened; the session switched to the last one. */
+  openedTabs: z.array(z.string()).optional(),
+  /** Index of the tab the step ended on, set while more than one tab is open. */
+  activeTab: z.number().int().nonnegative().optional(),
   evaluation: evaluationResultSchema.optional(),
 });
 
@@ -47,6 +74,26 @@ export const bugReportSchema = z.object({
 
 export type BugReport = z.infer<typeof bugReportSchema>;
 
+// ── LoginOutcome ──────────────────────────────────────────────
+// How the pre-test login went. A failed login stops the test instead
+// of letting it run unauthenticated.
+
+export const loginStatusSchema = z.enum(['succeeded', 'restored', 'failed']);
+
+export type LoginStatus = z.infer<typeof loginStatusSchema>;
+
+export const loginOutcomeSchema = z.object({
+  status: loginStatusSchema,
+  /** Page URL once the login finished (or gave up). */
+  url: z.string(),
+  reason: z.string().optional(),
+  /** Success-check predicates that did not hold. */
+  failedChecks: z.array(z.string()),
+  screenshotPath: z.string().optional(),
+});
+
+export type LoginOutcome = z.infer<typeof loginOutcomeSchema>;
+
 // ── RunSummary ────────────────────────────────────────────────
 
 export const runSummarySchema = z.object({
@@ -59,6 +106,18 @@ export const runSummarySchema = z.object({
   durationMs: z.number().int().nonnegative(),
   steps: z.array(stepExecutionResultSchema),
   bugs: z.array(bugReportSchema),
+  /** V2 only — the agent's observe-decide-act log for the test goal. */
+  actionHistory: z.array(actionHistoryEntrySchema).optional(),
+  /** LLM token usage per pipeline phase, with estimated cost. */
+  usage: runUsageSchema.optional(),
+  /** Named auth role the test ran as. */
+  role: z.string().min(1).optional(),
+  /** `environments` entry the config was loaded with. */
+  environment: z.string().min(1).optional(),
+  /** Parameter values of a data-driven test combination. */
+  parameters: z.record(z.string()).optional(),
+  /** Present when the run had a login prompt. */
+  login: loginOutcomeSchema.optional(),
 });
 
 export type RunSummary = z.infer<typeof runSummarySchema>;
@@ -2,7 +2,14 @@ import { z } from 'zod';
 
 // ── SelectorHint ──────────────────────────────────────────────
 
-export const selectorStrategySchema = z.enum(['testid', 'role', 'text', 'css']);
+export const selectorStrategySchema = z.enum([
+  'testid',
+  'role',
+  'text',
+  'css',
+  'label',
+  'placeholder',
+]);
 
 export type SelectorStrategy = z.infer<typeof selectorStrategySchema>;
 
@@ -26,6 +33,22 @@ export const stepTypeSchema = z.enum([
   'wait',
   'expect_text',
   'press_key',
+  'hover',
+  'dblclick',
+  'right_click',
+  'drag',
+  'scroll',
+  'expect_url',
+  'expect_visible',
+  'expect_hidden',
+  'expect_count',
+  'expect_attribute',
+  'expect_value',
+  'expect_enabled',
+  'expect_disabled',
+  'expect_title',
+  'switch_tab',
+  'close_tab',
 ]);
 
 export type StepType = z.infer<typeof stepTypeSchema>;
@@ -90,6 +113,139 @@ export const pressKeyStepSchema = z.object({
   value: z.string().min(1),
 });
 
+export const hoverStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('hover'),
+  selector: selectorHintSchema,
+});
+
+export const dblclickStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('dblclick'),
+  selector: selectorHintSchema,
+});
+
+export const rightClickStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('right_click'),
+  selector: selectorHintSchema,
+});
+
+/** Drag `source` and drop it onto `target`. */
+export const dragStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('drag'),
+  source: selectorHintSchema,
+  target: selectorHintSchema,
+});
+
+export const scrollDirectionSchema = z.enum(['down', 'up', 'right', 'left']);
+
+export type ScrollDirection = z.infer<typeof scrollDirectionSchema>;
+
+/**
+ * Scroll the page, or the element in `selector`. Without `until` it
+ * scrolls once by `amount` pixels (default: most of a screen). With
+ * `until` it keeps scrolling until that element is visible, or — for
+ * `"end"` — until no new content loads.
+ */
+export const scrollStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('scroll'),
+  selector: selectorHintSchema.optional(),
+  direction: scrollDirectionSchema.optional(),
+  amount: z.number().int().positive().optional(),
+  until: z.union([z.literal('end'), selectorHintSchema]).optional(),
+});
+
+// ── Tab step schemas ──────────────────────────────────────────
+// A tab or popup opened by a step becomes the active tab on its own;
+// these steps move between tabs explicitly.
+
+/**
+ * `value` is a tab number (0 = the first tab, in the order tabs were
+ * opened) or part of the tab's URL.
+ */
+export const switchTabStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('switch_tab'),
+  value: z.string().min(1),
+});
+
+/** Close the active tab and return to the most recently opened one left. */
+export const closeTabStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('close_tab'),
+});
+
+// ── Assertion step schemas ────────────────────────────────────
+// Checked in the browser, retrying until `timeout` like Playwright's
+// `expect`. A passing assertion needs no LLM evaluation.
+
+/** `value` is a regular expression the page URL must match. */
+export const expectUrlStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_url'),
+  value: z.string().min(1),
+});
+
+export const expectVisibleStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_visible'),
+  selector: selectorHintSchema,
+});
+
+/** Passes when the element is hidden or not in the page at all. */
+export const expectHiddenStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_hidden'),
+  selector: selectorHintSchema,
+});
+
+/** Number of elements `selector` matches. */
+export const expectCountStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_count'),
+  selector: selectorHintSchema,
+  count: z.number().int().nonnegative(),
+});
+
+/** Without `value`, only checks that the attribute is present. */
+export const expectAttributeStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_attribute'),
+  selector: selectorHintSchema,
+  attribute: z.string().min(1),
+  value: z.string().optional(),
+});
+
+/** Current value of an input, textarea or select. */
+export const expectValueStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_value'),
+  selector: selectorHintSchema,
+  value: z.string(),
+});
+
+export const expectEnabledStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_enabled'),
+  selector: selectorHintSchema,
+});
+
+export const expectDisabledStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_disabled'),
+  selector: selectorHintSchema,
+});
+
+/** `value` must appear in the page title. */
+export const expectTitleStepSchema = z.object({
+  ...baseFields,
+  type: z.literal('expect_title'),
+  value: z.string().min(1),
+});
+
 // ── Union schema ──────────────────────────────────────────────
 
 export const stepSchema = z.discriminatedUnion('type', [
@@ -101,6 +257,22 @@ export const stepSchema = z.discriminatedUnion('type', [
   waitStepSchema,
   expectTextStepSchema,
   pressKeyStepSchema,
+  hoverStepSchema,
+  dblclickStepSchema,
+  rightClickStepSchema,
+  dragStepSchema,
+  scrollStepSchema,
+  expectUrlStepSchema,
+  expectVisibleStepSchema,
+  expectHiddenStepSchema,
+  expectCountStepSchema,
+  expectAttributeStepSchema,
+  expectValueStepSchema,
+  expectEnabledStepSchema,
+  expectDisabledStepSchema,
+  expectTitleStepSchema,
+  switchTabStepSchema,
+  closeTabStepSchema,
 ]);
 
 export type Step = z.infer<typeof stepSchema>;
@@ -114,6 +286,25 @@ export type UploadStep = z.infer<typeof uploadStepSchema>;
 export type WaitStep = z.infer<typeof waitStepSchema>;
 export type ExpectTextStep = z.infer<typeof expectTextStepSchema>;
 export type PressKeyStep = z.infer<typeof pressKeyStepSchema>;
+export type HoverStep = z.infer<typeof hoverStepSchema>;
+export type DblclickStep = z.infer<typeof dblclickStepSchema>;
+export type RightClickStep = z.infer<typeof rightClickStepSchema>;
+export type DragStep = z.infer<typeof dragStepSchema>;
+export type ScrollStep = z.infer<typeof scrollStepSchema>;
+export type ExpectUrlStep = z.infer<typeof expectUrlStepSchema>;
+export type ExpectVisibleStep = z.infer<typeof expectVisibleStepSchema>;
+export type ExpectHiddenStep = z.infer<typeof expectHiddenStepSchema>;
+export type ExpectCountStep = z.infer<typeof expectCountStepSchema>;
+export type ExpectAttributeStep = z.infer<typeof expectAttributeStepSchema>;
+export type ExpectValueStep = z.infer<typeof expectValueStepSchema>;
+export type ExpectEnabledStep = z.infer<typeof expectEnabledStepSchema>;
+export type ExpectDisabledStep = z.infer<typeof expectDisabledStepSchema>;
+export type ExpectTitleStep = z.infer<typeof expectTitleStepSchema>;
+export type SwitchTabStep = z.infer<typeof switchTabStepSchema>;
+export type CloseTabStep = z.infer<typeof closeTabStepSchema>;
+
+/** Every `expect_*` step, including `expect_text`. */
+export type AssertionStep = Extract<Step, { type: `expect_${string}` }>;
 
 // ── List schema ───────────────────────────────────────────────
 
@@ -163,3 +354,27 @@ export function isExpectTextStep(step: Step): step is ExpectTextStep {
 export function isPressKeyStep(step: Step): step is PressKeyStep {
   return step.type === 'press_key';
 }
+
+export function isHoverStep(step: Step): step is HoverStep {
+  return step.type === 'hover';
+}
+
+export function isDblclickStep(step: Step): step is DblclickStep {
+  return step.type === 'dblclick';
+}
+
+export function isRightClickStep(step: Step): step is RightClickStep {
+  return step.type === 'right_click';
+}
+
+export function isDragStep(step: Step): step is DragStep {
+  return step.type === 'drag';
+}
+
+export function isScrollStep(step: Step): step is ScrollStep {
+  return step.type === 'scroll';
+}
+
+export function isAssertionStep(step: Step): step is AssertionStep {
+  return step.type.startsWith('expect_');
+}
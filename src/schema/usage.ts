@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// ── Usage phase ─────────────────────────────────────────────
+// Which part of the pipeline made the LLM call.
+
+export const usagePhaseSchema = z.enum([
+  'login',
+  'planner',
+  'evaluator',
+  'agent',
+  'final_evaluation',
+]);
+
+export type UsagePhase = z.infer<typeof usagePhaseSchema>;
+
+// ── Aggregated usage ────────────────────────────────────────
+
+export const usageTotalsSchema = z.object({
+  calls: z.number().int().nonnegative(),
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  images: z.number().int().nonnegative(),
+  latencyMs: z.number().int().nonnegative(),
+  /** Absent when no call in the bucket matched the price table. */
+  estimatedCostUsd: z.number().nonnegative().optional(),
+});
+
+export type UsageTotals = z.infer<typeof usageTotalsSchema>;
+
+export const phaseUsageSchema = usageTotalsSchema.extend({
+  phase: usagePhaseSchema,
+});
+
+export type PhaseUsage = z.infer<typeof phaseUsageSchema>;
+
+export const runUsageSchema = z.object({
+  total: usageTotalsSchema,
+  phases: z.array(phaseUsageSchema),
+});
+
+export type RunUsage = z.infer<typeof runUsageSchema>;
+
+// ── Price table ─────────────────────────────────────────────
+// USD per million tokens, keyed by model name or model-name prefix.
+
+export const modelPriceSchema = z.object({
+  inputPerMTok: z.number().nonnegative(),
+  outputPerMTok: z.number().nonnegative(),
+}).strict();
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+export const priceTableSchema = z.record(z.string().min(1), modelPriceSchema);
+
+export type PriceTable = z.infer<typeof priceTableSchema>;
+
+// ── Budget limits ───────────────────────────────────────────
+// Hard caps on LLM spend. A run stops cleanly once any is reached.
+
+export const budgetLimitsSchema = z.object({
+  /** Input + output tokens. */
+  maxTokens: z.number().int().positive().optional(),
+  maxLlmCalls: z.number().int().positive().optional(),
+  /** Only enforceable for models that have a price table entry. */
+  maxCostUsd: z.number().positive().optional(),
+}).strict();
+
+export type BudgetLimits = z.infer<typeof budgetLimitsSchema>;
+
+export const budgetConfigSchema = budgetLimitsSchema.extend({
+  /** Limits on the sum of all tests in one `promptqa run`. */
+  suite: budgetLimitsSchema.optional(),
+});
+
+export type BudgetConfig = z.infer<typeof budgetConfigSchema>;
@@ -5,10 +5,31 @@
  * Emoji prefixes give instant visual context in the terminal.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { redact } from './redact.js';
+
+// ── Per-run prefix ──────────────────────────────────────────
+// Parallel runs share one stderr. Each run executes inside
+// `withPrefix`, and every line it logs is tagged with the run name.
+
+const prefixStore = new AsyncLocalStorage<string>();
+
+export function withPrefix<T>(prefix: string, fn: () => Promise<T>): Promise<T> {
+  return prefixStore.run(prefix, fn);
+}
+
 // ── Core write ──────────────────────────────────────────────
 
 function write(message: string): void {
-  process.stderr.write(message + '\n');
+  const prefix = prefixStore.getStore();
+  const text = prefix === undefined
+    ? message
+    : message
+      .split('\n')
+      .map((line) => `[${prefix}] ${line}`)
+      .join('\n');
+  process.stderr.write(redact(text) + '\n');
 }
 
 // ── Public API ──────────────────────────────────────────────
@@ -64,3 +85,8 @@ export function login(message: string): void {
 export function llm(message: string): void {
   write(`🧠 ${message}`);
 }
+
+/** Text without an icon, e.g. a result block. Written in one piece. */
+export function plain(message: string): void {
+  write(message);
+}
@@ -0,0 +1,60 @@
+/**
+ * Known secret values and their masking.
+ *
+ * Anything that may carry a secret — log lines, step artifacts,
+ * summary.json, reports — passes through `redact` before it leaves
+ * the process. Secrets are registered as soon as they are known.
+ */
+
+// ── Registry ────────────────────────────────────────────────
+
+export const REDACTED = '***';
+
+// Shorter values would mask unrelated text
+const MIN_SECRET_LENGTH = 4;
+
+// Secret → epoch ms after which it is no longer masked
+const secrets = new Map<string, number>();
+
+/**
+ * Register a value to mask. Pass `expiresAt` for short-lived values
+ * such as one-time codes: once they stop being valid, the same digits
+ * elsewhere in the output are left alone.
+ */
+export function addSecret(value: string, expiresAt = Infinity): void {
+  if (value.length >= MIN_SECRET_LENGTH) {
+    secrets.set(value, Math.max(expiresAt, secrets.get(value) ?? 0));
+  }
+}
+
+function pruneExpired(): void {
+  const now = Date.now();
+  for (const [secret, expiresAt] of secrets) {
+    if (expiresAt <= now) secrets.delete(secret);
+  }
+}
+
+// ── Masking ─────────────────────────────────────────────────
+
+/** Replace every known secret in `text`. */
+export function redact(text: string): string {
+  pruneExpired();
+  if (secrets.size === 0) return text;
+
+  // Longest first so a secret containing another is masked whole
+  const known = [...secrets.keys()].sort((a, b) => b.length - a.length);
+  let result = text;
+  for (const secret of known) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Mask secrets inside a JSON-serializable value. Use this rather than
+ * masking rendered output that embeds binary data as base64.
+ */
+export function redactJson<T>(value: T): T {
+  pruneExpired();
+  return secrets.size === 0 ? value : JSON.parse(redact(JSON.stringify(value))) as T;
+}
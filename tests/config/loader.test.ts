@@ -0,0 +1,114 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ConfigError, resolveAdHocConfig, sourceOf } from '../../src/config/loader.js';
+
+let dir: string;
+let configPath: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'promptqa-config-'));
+  configPath = path.join(dir, '.promptqa.yaml');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('resolveAdHocConfig', () => {
+  it('uses the defaults when there is no config file', async () => {
+    const resolved = await resolveAdHocConfig({ configPath, env: {} });
+
+    expect(resolved.config.headless).toBe(false);
+    expect(resolved.config.maxSteps).toBe(12);
+    expect(resolved.configPath).toBeUndefined();
+    expect(sourceOf(resolved.sources, ['headless'])).toEqual({ kind: 'default' });
+  });
+
+  it('layers the file, then environment variables, then flags', async () => {
+    await writeFile(configPath, 'headless: false\nmaxSteps: 5\n');
+
+    const fromEnv = await resolveAdHocConfig({
+      configPath,
+      env: { PROMPTQA_HEADLESS: 'true' },
+    });
+    expect(fromEnv.config.headless).toBe(true);
+    expect(fromEnv.config.maxSteps).toBe(5);
+    expect(sourceOf(fromEnv.sources, ['headless'])).toEqual({ kind: 'env', variable: 'PROMPTQA_HEADLESS' });
+    expect(sourceOf(fromEnv.sources, ['maxSteps'])).toEqual({ kind: 'file', path: configPath });
+
+    const fromFlags = await resolveAdHocConfig({
+      configPath,
+      env: { PROMPTQA_HEADLESS: 'true' },
+      overrides: { headless: false, maxSteps: 8 },
+    });
+    expect(fromFlags.config.headless).toBe(false);
+    expect(fromFlags.config.maxSteps).toBe(8);
+    expect(sourceOf(fromFlags.sources, ['headless'])).toEqual({ kind: 'flag', flag: '--headless' });
+    expect(sourceOf(fromFlags.sources, ['maxSteps'])).toEqual({ kind: 'flag', flag: '--max-steps' });
+  });
+
+  it('lets the config file win over the LLM variables', async () => {
+    await writeFile(configPath, 'provider: openai\nmodel: gpt-file\n');
+
+    const resolved = await resolveAdHocConfig({
+      configPath,
+      env: {
+        LLM_PROVIDER: 'local',
+        LLM_MODEL: 'env-model',
+        LLM_BASE_URL: 'http://localhost:11434/v1',
+      },
+    });
+
+    expect(resolved.config.provider).toBe('openai');
+    expect(resolved.config.model).toBe('gpt-file');
+    expect(resolved.config.llmBaseUrl).toBe('http://localhost:11434/v1');
+    expect(sourceOf(resolved.sources, ['provider'])).toEqual({ kind: 'file', path: configPath });
+    expect(sourceOf(resolved.sources, ['llmBaseUrl'])).toEqual({ kind: 'env', variable: 'LLM_BASE_URL' });
+  });
+
+  it('reads the model variable of the winning provider', async () => {
+    const env = { PROMPTQA_MODEL: 'claude-env', LLM_MODEL: 'openai-env' };
+
+    const anthropic = await resolveAdHocConfig({ configPath, env });
+    expect(anthropic.config.model).toBe('claude-env');
+    expect(sourceOf(anthropic.sources, ['model'])).toEqual({ kind: 'env', variable: 'PROMPTQA_MODEL' });
+
+    await writeFile(configPath, 'provider: openai\n');
+    const openai = await resolveAdHocConfig({ configPath, env });
+    expect(openai.config.model).toBe('openai-env');
+    expect(sourceOf(openai.sources, ['model'])).toEqual({ kind: 'env', variable: 'LLM_MODEL' });
+  });
+
+  it('merges the named environment over the base config', async () => {
+    await writeFile(configPath, [
+      'maxSteps: 5',
+      'environments:',
+      '  staging:',
+      '    maxSteps: 20',
+      '',
+    ].join('\n'));
+
+    const resolved = await resolveAdHocConfig({ configPath, environment: 'staging', env: {} });
+
+    expect(resolved.config.maxSteps).toBe(20);
+    expect(sourceOf(resolved.sources, ['maxSteps'])).toEqual({ kind: 'environment', name: 'staging' });
+  });
+
+  it('rejects an unknown environment', async () => {
+    await writeFile(configPath, 'environments:\n  staging:\n    maxSteps: 20\n');
+
+    await expect(
+      resolveAdHocConfig({ configPath, environment: 'prod', env: {} }),
+    ).rejects.toThrow(ConfigError);
+  });
+
+  it('rejects unknown settings', async () => {
+    await writeFile(configPath, 'headles: true\n');
+
+    await expect(resolveAdHocConfig({ configPath, env: {} })).rejects.toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { expandTests } from '../../src/config/matrix.js';
+
+describe('expandTests', () => {
+  it('passes a plain entry through unchanged', () => {
+    expect(expandTests([{ name: 'login', prompt: 'Log in', role: 'admin' }])).toEqual([
+      { name: 'login', baseName: 'login', prompt: 'Log in', role: 'admin' },
+    ]);
+  });
+
+  it('runs each parameter row times each matrix combination', () => {
+    const cases = expandTests([{
+      name: 'checkout',
+      prompt: 'Buy as ${{ params.user }} in ${{ params.locale }} with ${{ params.card }}',
+      url: 'https://shop.test/${{ params.locale }}',
+      parameters: [{ user: 'guest' }, { user: 'member' }],
+      matrix: { locale: ['de', 'fr'], card: ['visa'] },
+    }]);
+
+    expect(cases.map((c) => c.name)).toEqual([
+      'checkout [user=guest, locale=de, card=visa]',
+      'checkout [user=guest, locale=fr, card=visa]',
+      'checkout [user=member, locale=de, card=visa]',
+      'checkout [user=member, locale=fr, card=visa]',
+    ]);
+    expect(cases[1]).toEqual({
+      name: 'checkout [user=guest, locale=fr, card=visa]',
+      baseName: 'checkout',
+      prompt: 'Buy as guest in fr with visa',
+      url: 'https://shop.test/fr',
+      parameters: { user: 'guest', locale: 'fr', card: 'visa' },
+    });
+  });
+
+  it('fails on a placeholder without a value', () => {
+    expect(() => expandTests([{ name: 'search', prompt: 'Find ${{ params.term }}' }]))
+      .toThrow('Test "search": prompt uses params.term, which has no value');
+  });
+
+  it('fails when a substituted url is invalid', () => {
+    expect(() => expandTests([{
+      name: 'home',
+      prompt: 'Open the page',
+      url: '${{ params.host }}',
+      parameters: [{ host: 'not a url' }],
+    }])).toThrow('url "not a url" is not a valid URL');
+  });
+
+  it('fails when two cases end up with the same name', () => {
+    expect(() => expandTests([
+      { name: 'a [x=1]', prompt: 'One' },
+      { name: 'a', prompt: 'Two', parameters: [{ x: '1' }] },
+    ])).toThrow('Duplicate test name "a [x=1]"');
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CassetteMissError, cassetteKey, createCassetteClient } from '../../src/llm/cassette.js';
+import { createMockClient } from '../../src/llm/mock.js';
+import type { LLMClient } from '../../src/llm/client.js';
+
+describe('cassetteKey', () => {
+  it('is a stable hex digest of the prompts', () => {
+    const key = cassetteKey('system', 'user');
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(cassetteKey('system', 'user')).toBe(key);
+  });
+
+  it('changes with either prompt and with the image', () => {
+    const key = cassetteKey('system', 'user');
+    expect(cassetteKey('system!', 'user')).not.toBe(key);
+    expect(cassetteKey('system', 'user!')).not.toBe(key);
+    expect(cassetteKey('system', 'user', 'aW1hZ2U=')).not.toBe(key);
+    expect(cassetteKey('system', 'user', 'aW1hZ2U=')).not.toBe(cassetteKey('system', 'user', 'b3RoZXI='));
+  });
+
+  it('does not confuse a prompt boundary with prompt text', () => {
+    expect(cassetteKey('ab', 'c')).not.toBe(cassetteKey('a', 'bc'));
+  });
+});
+
+describe('createCassetteClient', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'promptqa-cassette-'));
+    cassettePath = path.join(dir, 'cassette.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays recorded responses in order per request', async () => {
+    const recorder = createCassetteClient({
+      mode: 'record',
+      path: cassettePath,
+      inner: createMockClient(['first', 'second', 'with image']),
+    });
+    await recorder.generate('sys', 'plan');
+    await recorder.generate('sys', 'plan');
+    await recorder.generateWithImage!('sys', 'look', 'aW1n', 'image/png');
+
+    const player = createCassetteClient({ mode: 'replay', path: cassettePath });
+    expect(await player.generate('sys', 'plan')).toBe('first');
+    expect(await player.generate('sys', 'plan')).toBe('second');
+    expect(await player.generateWithImage!('sys', 'look', 'aW1n', 'image/png')).toBe('with image');
+  });
+
+  it('fails on a request it has not seen', async () => {
+    const recorder = createCassetteClient({
+      mode: 'record',
+      path: cassettePath,
+      inner: createMockClient(['only']),
+    });
+    await recorder.generate('sys', 'plan');
+
+    const player = createCassetteClient({ mode: 'replay', path: cassettePath });
+    await player.generate('sys', 'plan');
+    await expect(player.generate('sys', 'plan')).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(player.generate('sys', 'other')).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it('replays without vision when the recording client had none', async () => {
+    const textOnly: LLMClient = { generate: async () => 'text' };
+    const recorder = createCassetteClient({ mode: 'record', path: cassettePath, inner: textOnly });
+    expect(recorder.generateWithImage).toBeUndefined();
+    await recorder.generate('sys', 'plan');
+
+    const file = JSON.parse(await readFile(cassettePath, 'utf-8')) as { vision: boolean };
+    expect(file.vision).toBe(false);
+
+    const player = createCassetteClient({ mode: 'replay', path: cassettePath });
+    expect(player.generateWithImage).toBeUndefined();
+    expect(await player.generate('sys', 'plan')).toBe('text');
+  });
+
+  it('reports the recorded usage on replay', async () => {
+    const recorder = createCassetteClient({
+      mode: 'record',
+      path: cassettePath,
+      inner: createMockClient(['x']),
+    });
+    await recorder.generate('sys', 'plan');
+
+    const player = createCassetteClient({ mode: 'replay', path: cassettePath });
+    let model: string | undefined;
+    await player.generate('sys', 'plan', { onUsage: (u) => { model = u.model; } });
+    expect(model).toBe('mock');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import { generatePlaywrightSpec, stepsFromResults } from '../../src/report/exporter.js';
+import type { StepExecutionResult } from '../../src/schema/index.js';
+
+const noCapture = { consoleEntries: [], networkFailures: [], pageErrors: [] };
+
+function result(stepIndex: number, overrides: Partial<StepExecutionResult>): StepExecutionResult {
+  return {
+    stepIndex,
+    step: { type: 'goto', description: 'Open the app', value: 'https://app.test' },
+    success: true,
+    url: 'https://app.test',
+    screenshotPath: `step-${String(stepIndex)}.png`,
+    visibleText: '',
+    capture: noCapture,
+    ...overrides,
+  };
+}
+
+describe('generatePlaywrightSpec', () => {
+  it('reads secrets and env variables from process.env', () => {
+    const spec = generatePlaywrightSpec({
+      title: 'login',
+      steps: [
+        {
+          type: 'goto',
+          description: 'Open the tenant',
+          value: 'https://${{ env.TENANT }}.app.test/login',
+        },
+        {
+          type: 'type',
+          description: 'Enter the password',
+          selector: { strategy: 'label', value: 'Password' },
+          value: '${{ secrets.PASSWORD }}',
+        },
+      ],
+    });
+
+    expect(spec).toContain(`page.goto('https://' + process.env.TENANT! + '.app.test/login')`);
+    expect(spec).toContain('.fill(process.env.PASSWORD!)');
+    expect(spec).not.toContain('${{');
+  });
+
+  it('refuses to export a one-time code', () => {
+    expect(() => generatePlaywrightSpec({
+      title: 'login',
+      steps: [{
+        type: 'type',
+        description: 'Enter the code',
+        selector: { strategy: 'label', value: 'Code' },
+        value: '${{ totp }}',
+      }],
+    })).toThrow(/totp/);
+  });
+});
+
+describe('stepsFromResults', () => {
+  it('drops failed steps and uses the selectors that matched', () => {
+    const steps = stepsFromResults([
+      result(1, {
+        step: {
+          type: 'drag',
+          description: 'Move the card',
+          source: { strategy: 'text', value: 'Card' },
+          target: { strategy: 'text', value: 'Done' },
+        },
+        selectorResolutions: [{
+          field: 'target',
+          requested: { strategy: 'text', value: 'Done' },
+          matched: { strategy: 'testid', value: 'column-done' },
+          healed: true,
+        }],
+      }),
+      result(0, { success: false }),
+    ]);
+
+    expect(steps).toEqual([{
+      type: 'drag',
+      description: 'Move the card',
+      source: { strategy: 'text', value: 'Card' },
+      target: { strategy: 'testid', value: 'column-done' },
+    }]);
+  });
+
+  it('switches to the remaining tab after closing one', () => {
+    const steps = stepsFromResults([
+      result(0, { step: { type: 'close_tab', description: 'Close the popup' } }),
+    ]);
+
+    expect(steps.map((s) => s.type)).toEqual(['close_tab', 'switch_tab']);
+    expect(steps[1]).toMatchObject({ value: '0' });
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { addSecret, redact, redactJson, REDACTED } from '../../src/utils/redact.js';
+
+// The registry is process-wide, so every test uses its own values
+
+describe('redact', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('masks every occurrence of a registered secret', () => {
+    addSecret('hunter2-pass');
+    expect(redact('pw=hunter2-pass, again hunter2-pass')).toBe(`pw=${REDACTED}, again ${REDACTED}`);
+  });
+
+  it('ignores values too short to be told apart from ordinary text', () => {
+    addSecret('abc');
+    expect(redact('abc')).toBe('abc');
+  });
+
+  it('masks a secret containing another one whole', () => {
+    addSecret('token');
+    addSecret('token-with-suffix');
+    expect(redact('token-with-suffix')).toBe(REDACTED);
+  });
+
+  it('stops masking a value once it expires', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    addSecret('482913', 1_030_000);
+
+    expect(redact('code 482913')).toBe(`code ${REDACTED}`);
+
+    vi.setSystemTime(1_030_000);
+    expect(redact('order 482913')).toBe('order 482913');
+  });
+
+  it('keeps the later expiry when a value is registered twice', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(2_000_000);
+    addSecret('775511', 2_030_000);
+    addSecret('775511');
+
+    vi.setSystemTime(9_000_000);
+    expect(redact('775511')).toBe(REDACTED);
+  });
+
+  it('masks inside JSON values', () => {
+    addSecret('s3cr3t-json');
+    expect(redactJson({ nested: ['s3cr3t-json'] })).toEqual({ nested: [REDACTED] });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeBase32, generateTotp } from '../../src/utils/totp.js';
+
+// RFC 6238 appendix B: the seeds are the ASCII digits "1234567890"
+// repeated to the hash's key length, here in base32.
+const SEEDS = {
+  SHA1: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+  SHA256: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA====',
+  SHA512:
+    'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ' +
+    'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA=',
+} as const;
+
+const VECTORS: [seconds: number, sha1: string, sha256: string, sha512: string][] = [
+  [59, '94287082', '46119246', '90693936'],
+  [1111111109, '07081804', '68084774', '25091201'],
+  [1111111111, '14050471', '67062674', '99943326'],
+  [1234567890, '89005924', '91819424', '93441116'],
+  [2000000000, '69279037', '90698825', '38618901'],
+  [20000000000, '65353130', '77737706', '47863826'],
+];
+
+describe('generateTotp', () => {
+  it.each(VECTORS)('matches the RFC 6238 vectors at T=%i', (seconds, sha1, sha256, sha512) => {
+    const at = seconds * 1000;
+    const options = { digits: 8, period: 30 } as const;
+    expect(generateTotp(SEEDS.SHA1, { ...options, algorithm: 'SHA1' }, at)).toBe(sha1);
+    expect(generateTotp(SEEDS.SHA256, { ...options, algorithm: 'SHA256' }, at)).toBe(sha256);
+    expect(generateTotp(SEEDS.SHA512, { ...options, algorithm: 'SHA512' }, at)).toBe(sha512);
+  });
+
+  it('keeps leading zeros of a 6-digit code', () => {
+    expect(generateTotp(SEEDS.SHA1, { digits: 6, period: 30, algorithm: 'SHA1' }, 1111111109_000))
+      .toBe('081804');
+  });
+
+  it('returns the same code for the whole period', () => {
+    const options = { digits: 6, period: 30, algorithm: 'SHA1' } as const;
+    const start = 1_700_000_010_000;
+    expect(generateTotp(SEEDS.SHA1, options, start + 29_999))
+      .toBe(generateTotp(SEEDS.SHA1, options, start));
+    expect(generateTotp(SEEDS.SHA1, options, start + 30_000))
+      .not.toBe(generateTotp(SEEDS.SHA1, options, start));
+  });
+});
+
+describe('decodeBase32', () => {
+  it('ignores case, spaces, dashes and padding', () => {
+    expect(decodeBase32('gezd gnbv-gy3t qojq==').toString()).toBe('1234567890');
+  });
+
+  it('rejects characters outside the alphabet without echoing them', () => {
+    expect(() => decodeBase32('GEZD1')).toThrow('not valid base32');
+    expect(() => decodeBase32('GEZD1')).not.toThrow('1');
+  });
+
+  it('rejects an empty secret', () => {
+    expect(() => decodeBase32(' = ')).toThrow('empty');
+  });
+});